@@ -8,7 +8,10 @@ export const DEFAULT_OPTIONS: RequiredSpreadsheetOptions = {
   minRowHeight: 20,
   maxRowHeight: 150,
   headerHeight: 35,
+  groupHeaderHeight: 28,
   rowNumberWidth: 50,
+  frozenColumns: 0,
+  frozenRows: 0,
   font: "14px Inter, sans-serif",
   headerFont: "bold 14px Inter, sans-serif",
   padding: 5, // Default cell padding
@@ -34,6 +37,8 @@ export const DEFAULT_OPTIONS: RequiredSpreadsheetOptions = {
   headerClipText: true,
   headerTextAlign: "center",
   gridLineColor: "#d1d5db", // gray-300
+  frozenDividerColor: "#9ca3af", // gray-400
+  hiddenColumnMarkerColor: "#d1d5db", // gray-300
   rowNumberBgColor: "#f3f4f6", // gray-100
   selectedRowNumberBgColor: "#dbeafe", // blue-100
   resizeRowBgColor: "#dbeafe9e", // alpha blend lighter
@@ -50,6 +55,9 @@ export const DEFAULT_OPTIONS: RequiredSpreadsheetOptions = {
   resizeDividerColor: "#3b82f6", // blue-500 - Color for resize divider lines
   temporaryErrorTimeout: 2000,
   customDatePicker: false,
+  timeZone: null, // local time zone
+  dateTimeFormat: { dateStyle: "short", timeStyle: "short" },
+  timeFormat: { timeStyle: "short" },
   autoAddNewRow: true,
   autoResizeRowHeight: false, // Whether to automatically resize row heights based on content
   lazySearchDebounceTime: 300,
@@ -57,12 +65,24 @@ export const DEFAULT_OPTIONS: RequiredSpreadsheetOptions = {
   allowTabInTextarea: false,
   wrapText: false,
   lineHeight: 16, // in pixels
+  historySize: 100, // Max number of undo steps
+  sortable: true,
+  filterable: true,
+  headerIconSize: 16,
+  columnGroups: [],
+  conditionalFormats: [],
+  cellRenderers: {},
+  customEditors: {},
   verbose: false,
 
   onCellsUpdate: null,
   onCellSelected: null,
   onEditorOpen: null,
   onRowDeleted: null,
+  onRowsInserted: null,
+  onRowsMoved: null,
+  onColumnOrderChange: null,
+  onColumnGroupToggle: null,
   onColumnDelete: null,
   onColumnDeleted: null,
   onLazySearch: null,
@@ -72,8 +92,13 @@ export const DEFAULT_OPTIONS: RequiredSpreadsheetOptions = {
   onEditorOpened: null,
   onEditorClosed: null,
   onColumnWidthsChange: null,
+  onSortChange: null,
+  onFilterChange: null,
 };
 
 export const DISABLED_FIELD_PREFIX = "disabled:";
 export const LOADING_FIELD_PREFIX = "loading:";
 export const ERROR_FIELD_PREFIX = "error:";
+export const FORMULA_ERROR_FIELD_PREFIX = "formulaError:";
+export const STYLE_FIELD_PREFIX = "style:";
+export const ROW_STYLE_FIELD = "rowStyle:";
@@ -2,12 +2,24 @@ import { RequiredSpreadsheetOptions } from "./types";
 import { StateManager } from "./state-manager";
 import { formatValue, log } from "./utils";
 import { DomManager } from "dom-manager";
+import { SizeMap } from "./size-map";
+
+/** Measured text heights of a column, only valid for the width, font and wrapping */
+interface TextHeightCache {
+  width: number;
+  font: string;
+  wrap: boolean;
+  heights: Map<string, number>;
+}
+
+const MAX_CACHED_TEXT_HEIGHTS = 10000; // per column
 
 export class DimensionCalculator {
   private options: RequiredSpreadsheetOptions;
   private stateManager: StateManager;
   private domManager: DomManager;
   private canvasContext: CanvasRenderingContext2D | null = null;
+  private textHeightCache: Map<string, TextHeightCache> = new Map();
 
   constructor(
     options: RequiredSpreadsheetOptions,
@@ -49,102 +61,158 @@ export class DimensionCalculator {
   }
 
   /**
-   * Automatically resize row heights based on cell content
-   * @param colIndex Optional column index to only resize rows based on that specific column
+   * Marks rows to be measured again by the next autoResizeRowHeights,
+   * all rows if no data row indices are given. The state manager keeps the
+   * marks, so they move with their rows when rows are inserted or removed.
+   */
+  public invalidateRowHeights(dataRows?: Iterable<number>): void {
+    this.stateManager.invalidateRowHeights(dataRows);
+  }
+
+  /**
+   * Automatically resize row heights based on cell content.
+   * Only the rows marked by invalidateRowHeights are measured.
    */
   public autoResizeRowHeights(): void {
     if (!this.options.autoResizeRowHeight || !this.canvasContext) {
       return;
     }
 
-    const { wrapText, padding, defaultRowHeight, defaultColumnWidth } =
-      this.options;
     const dataLength = this.stateManager.dataLength;
-    const columns = this.stateManager.getColumns();
-    const schema = this.stateManager.getSchema();
-    const columnWidths = this.stateManager.getColumnWidths();
-    const userResizedRows = this.stateManager.getUserResizedRows();
 
     // Save current canvas context state
     this.canvasContext.save();
     this.canvasContext.font = this.options.font;
 
-    // Process each row
-    for (let rowIndex = 0; rowIndex < dataLength; rowIndex++) {
-      // Skip user-resized rows
-      if (userResizedRows.has(rowIndex)) {
-        continue;
+    const dirtyRows = this.stateManager.takeDirtyRowHeights();
+    if (dirtyRows) {
+      // rows hidden by the filters stay dirty until they are shown
+      const hiddenRows: number[] = [];
+      const totalDataLength = this.stateManager.totalDataLength;
+      dirtyRows.forEach((dataRowIndex) => {
+        const rowIndex = this.stateManager.getViewRowIndex(dataRowIndex);
+        if (rowIndex >= 0) {
+          this._autoResizeRowHeight(rowIndex);
+        } else if (dataRowIndex < totalDataLength) {
+          hiddenRows.push(dataRowIndex);
+        }
+      });
+      this.stateManager.invalidateRowHeights(hiddenRows);
+    } else {
+      for (let rowIndex = 0; rowIndex < dataLength; rowIndex++) {
+        this._autoResizeRowHeight(rowIndex);
       }
-      const currentRowHeight = this.stateManager.getRowHeight(rowIndex);
-      // this target column is the one that is currently being resized
-      const currentMinRowHeight = defaultRowHeight;
+    }
 
-      let maxRowHeight = defaultRowHeight;
-      const rowData = this.stateManager.getRowData(rowIndex);
-      if (!rowData) continue;
+    // Restore canvas context
+    this.canvasContext.restore();
 
-      // Check cells in the row to determine the required height
-      for (let col = 0; col < columns.length; col++) {
-        // Skip invalid column indexes
-        if (col < 0 || col >= columns.length) continue;
+    // Recalculate totals after changing heights
+    this.calculateTotalSize();
+    this.calculateVisibleRange();
+  }
 
-        const colKey = columns[col];
-        const schemaCol = schema[colKey];
+  /** Measures the cells of a row and updates its height */
+  private _autoResizeRowHeight(rowIndex: number): void {
+    const { wrapText, padding, defaultRowHeight } = this.options;
+    const columns = this.stateManager.getColumns();
+    const schema = this.stateManager.getSchema();
 
-        // Only consider multiline cells or cells that should wrap
-        if (!schemaCol?.wordWrap && !wrapText) {
-          continue;
-        }
+    // Skip user-resized rows
+    if (this.stateManager.getUserResizedRows().has(rowIndex)) {
+      return;
+    }
+    const currentRowHeight = this.stateManager.getRowHeight(rowIndex);
+    // this target column is the one that is currently being resized
+    const currentMinRowHeight = defaultRowHeight;
 
-        const cellValue = this.stateManager.getCellData(rowIndex, col);
-        if (cellValue === null || cellValue === undefined || cellValue === "") {
-          continue;
-        }
+    let maxRowHeight = defaultRowHeight;
+    const rowData = this.stateManager.getRowData(rowIndex);
+    if (!rowData) return;
 
-        // Get formatted text value for this cell
-        let textValue = String(cellValue);
-        if (schemaCol.formatter) {
-          const formatted = schemaCol.formatter(cellValue);
-          if (formatted !== null && formatted !== undefined) {
-            textValue = String(formatted);
-          }
-        } else {
-          textValue = formatValue(
-            cellValue,
-            schemaCol?.type,
-            this.stateManager.cachedDropdownOptionsByColumn.get(colKey)
-          );
-        }
+    // Check cells in the row to determine the required height
+    for (let col = 0; col < columns.length; col++) {
+      // Skip invalid column indexes
+      if (col < 0 || col >= columns.length) continue;
 
-        // Measure text height for this cell
-        const colWidth = columnWidths.get(col) || defaultColumnWidth;
-        const contentWidth = colWidth - padding * 2; // available width for text
-        const textHeight = this.measureTextHeight(
-          textValue,
-          contentWidth,
-          schemaCol.wordWrap || wrapText
-        );
+      const colKey = columns[col];
+      const schemaCol = schema[colKey];
 
-        // Update max height if this cell requires more height
-        maxRowHeight = Math.max(maxRowHeight, textHeight + padding * 2);
+      // Only consider multiline cells or cells that should wrap
+      if (!schemaCol?.wordWrap && !wrapText) {
+        continue;
       }
 
-      // Constrain to min/max limits
-      maxRowHeight = Math.max(maxRowHeight, currentMinRowHeight);
+      const cellValue = this.stateManager.getCellData(rowIndex, col);
+      if (cellValue === null || cellValue === undefined || cellValue === "") {
+        continue;
+      }
 
-      // Only update if different from current height
-      if (maxRowHeight !== currentRowHeight) {
-        // Update the row height without marking as user-resized
-        this.stateManager.setAutoRowHeight(rowIndex, maxRowHeight);
+      // Get formatted text value for this cell
+      let textValue = String(cellValue);
+      if (schemaCol.formatter) {
+        const formatted = schemaCol.formatter(cellValue);
+        if (formatted !== null && formatted !== undefined) {
+          textValue = String(formatted);
+        }
+      } else {
+        textValue = formatValue(
+          cellValue,
+          schemaCol?.type,
+          this.stateManager.cachedDropdownOptionsByColumn.get(colKey),
+          this.options
+        );
       }
+
+      // Measure text height for this cell
+      const colWidth = this.stateManager.getColumnWidth(col);
+      const contentWidth = colWidth - padding * 2; // available width for text
+      const textHeight = this._getTextHeight(
+        colKey,
+        textValue,
+        contentWidth,
+        schemaCol.wordWrap || wrapText
+      );
+
+      // Update max height if this cell requires more height
+      maxRowHeight = Math.max(maxRowHeight, textHeight + padding * 2);
     }
 
-    // Restore canvas context
-    this.canvasContext.restore();
+    // Constrain to min/max limits
+    maxRowHeight = Math.max(maxRowHeight, currentMinRowHeight);
 
-    // Recalculate totals after changing heights
-    this.calculateTotalSize();
-    this.calculateVisibleRange();
+    // Only update if different from current height
+    if (maxRowHeight !== currentRowHeight) {
+      // Update the row height without marking as user-resized
+      this.stateManager.setAutoRowHeight(rowIndex, maxRowHeight);
+    }
+  }
+
+  /** Same as measureTextHeight, cached per column by text */
+  private _getTextHeight(
+    colKey: string,
+    text: string,
+    maxWidth: number,
+    shouldWrap: boolean
+  ): number {
+    const { font } = this.options;
+    let cache = this.textHeightCache.get(colKey);
+    if (
+      !cache ||
+      cache.width !== maxWidth ||
+      cache.font !== font ||
+      cache.wrap !== shouldWrap
+    ) {
+      cache = { width: maxWidth, font, wrap: shouldWrap, heights: new Map() };
+      this.textHeightCache.set(colKey, cache);
+    }
+    let height = cache.heights.get(text);
+    if (height === undefined) {
+      if (cache.heights.size >= MAX_CACHED_TEXT_HEIGHTS) cache.heights.clear();
+      height = this.measureTextHeight(text, maxWidth, shouldWrap);
+      cache.heights.set(text, height);
+    }
+    return height;
   }
 
   /**
@@ -224,12 +292,7 @@ export class DimensionCalculator {
   }
 
   public calculateVisibleRange(): void {
-    const {
-      headerHeight,
-      rowNumberWidth,
-      defaultRowHeight,
-      defaultColumnWidth,
-    } = this.options;
+    const { headerHeight, rowNumberWidth } = this.options;
     const dataLength = this.stateManager.dataLength;
     const columns = this.stateManager.getColumns();
     const columnWidths = this.stateManager.getColumnWidths();
@@ -239,51 +302,30 @@ export class DimensionCalculator {
     const viewportWidth = this.stateManager.getViewportWidth();
     const viewportHeight = this.stateManager.getViewportHeight();
 
+    // The visible range only covers the scrolling pane,
+    // frozen columns and rows are always drawn
+    const frozenColumnCount = this.getFrozenColumnCount();
+    const frozenRowCount = this.getFrozenRowCount();
+    const frozenWidth = this.getFrozenWidth();
+    const frozenHeight = this.getFrozenHeight();
+
     // Calculate Visible Columns
-    let currentX = rowNumberWidth;
-    let visibleColStart = -1;
-    let visibleColEnd = columns.length - 1;
-    for (let col = 0; col < columns.length; col++) {
-      const colWidth = columnWidths.get(col) || defaultColumnWidth;
-      const colRight = currentX + colWidth;
-      if (colRight > scrollLeft && currentX < scrollLeft + viewportWidth) {
-        if (visibleColStart === -1) {
-          visibleColStart = col;
-        }
-        visibleColEnd = col;
-      } else if (visibleColStart !== -1) {
-        // Optimization: once we pass the visible range, no need to check further
-        break;
-      }
-      currentX = colRight;
-    }
-    if (visibleColStart === -1) {
-      visibleColStart = 0;
-      visibleColEnd = -1; // Indicates no columns are visible
-    }
+    const [visibleColStart, visibleColEnd] = this._findVisibleRange(
+      columnWidths,
+      frozenColumnCount,
+      columns.length,
+      scrollLeft + frozenWidth - rowNumberWidth,
+      scrollLeft + viewportWidth - rowNumberWidth
+    );
 
     // Calculate Visible Rows
-    let currentY = headerHeight;
-    let visibleRowStart = -1;
-    let visibleRowEnd = dataLength - 1;
-    for (let row = 0; row < dataLength; row++) {
-      const rowHeight = rowHeights.get(row) || defaultRowHeight;
-      const rowBottom = currentY + rowHeight;
-      if (rowBottom > scrollTop && currentY < scrollTop + viewportHeight) {
-        if (visibleRowStart === -1) {
-          visibleRowStart = row;
-        }
-        visibleRowEnd = row;
-      } else if (visibleRowStart !== -1) {
-        // Optimization
-        break;
-      }
-      currentY = rowBottom;
-    }
-    if (visibleRowStart === -1) {
-      visibleRowStart = 0;
-      visibleRowEnd = -1; // Indicates no rows are visible
-    }
+    const [visibleRowStart, visibleRowEnd] = this._findVisibleRange(
+      rowHeights,
+      frozenRowCount,
+      dataLength,
+      scrollTop + frozenHeight - headerHeight,
+      scrollTop + viewportHeight - headerHeight
+    );
 
     this.stateManager.updateVisibleRange(
       visibleRowStart,
@@ -298,31 +340,156 @@ export class DimensionCalculator {
     });
   }
 
+  /**
+   * Range of the indices from `first` that end after `start` and begin before `end`,
+   * offsets are measured from the first row or column. [0, -1] if nothing is visible
+   */
+  private _findVisibleRange(
+    sizes: SizeMap,
+    first: number,
+    count: number,
+    start: number,
+    end: number
+  ): [number, number] {
+    const rangeStart = Math.max(first, sizes.findIndex(start));
+    let rangeEnd = Math.min(count - 1, sizes.findIndex(end));
+    if (rangeEnd >= 0 && sizes.getOffset(rangeEnd) >= end) rangeEnd--;
+    return rangeStart <= rangeEnd ? [rangeStart, rangeEnd] : [0, -1];
+  }
+
   // --- Getters for position/size needed by other modules ---
 
   public getColumnLeft(colIndex: number): number {
-    const { rowNumberWidth, defaultColumnWidth } = this.options;
-    let left = rowNumberWidth + colIndex * defaultColumnWidth;
-    // Use direct access for better performance when calculating row positions
-    const columnWidths = this.stateManager.getColumnWidths().entries();
-    for (const [index, width] of columnWidths) {
-      if (index < colIndex) {
-        left += width - defaultColumnWidth;
-      }
-    }
-    return left;
+    const columnWidths = this.stateManager.getColumnWidths();
+    return this.options.rowNumberWidth + columnWidths.getOffset(colIndex);
   }
 
   public getRowTop(rowIndex: number): number {
-    const { headerHeight, defaultRowHeight } = this.options;
-    let top = headerHeight + rowIndex * defaultRowHeight;
-    // Use direct access for better performance when calculating row positions
-    const rowHeights = this.stateManager.getRowHeights().entries();
-    for (const [index, height] of rowHeights) {
-      if (index < rowIndex) {
-        top += height - defaultRowHeight;
-      }
+    const rowHeights = this.stateManager.getRowHeights();
+    return this.options.headerHeight + rowHeights.getOffset(rowIndex);
+  }
+
+  /**
+   * Column at a content x position measured from the first column
+   * (without the row numbers), null past the last column
+   */
+  public getColumnAt(contentX: number): number | null {
+    const col = this.stateManager.getColumnWidths().findIndex(contentX);
+    return col >= 0 && col < this.stateManager.getColumns().length
+      ? col
+      : null;
+  }
+
+  /**
+   * Row at a content y position measured from the first row
+   * (without the header), null past the last row
+   */
+  public getRowAt(contentY: number): number | null {
+    const row = this.stateManager.getRowHeights().findIndex(contentY);
+    return row >= 0 && row < this.stateManager.dataLength ? row : null;
+  }
+
+  /**
+   * Column whose right border is within the resize handle size of a content x
+   * position measured from the first column, null if there is none
+   */
+  public getColumnBorderAt(contentX: number): number | null {
+    return this._findBorder(
+      this.stateManager.getColumnWidths(),
+      this.stateManager.getColumns().length,
+      contentX
+    );
+  }
+
+  /**
+   * Row whose bottom border is within the resize handle size of a content y
+   * position measured from the first row, null if there is none
+   */
+  public getRowBorderAt(contentY: number): number | null {
+    return this._findBorder(
+      this.stateManager.getRowHeights(),
+      this.stateManager.dataLength,
+      contentY
+    );
+  }
+
+  private _findBorder(
+    sizes: SizeMap,
+    count: number,
+    offset: number
+  ): number | null {
+    const { resizeHandleSize } = this.options;
+    const index = sizes.findIndex(offset);
+    // the border before the index is the end of the previous one
+    for (const candidate of [index - 1, index]) {
+      if (candidate < 0 || candidate >= count) continue;
+      const border = sizes.getOffset(candidate + 1);
+      if (Math.abs(offset - border) <= resizeHandleSize) return candidate;
     }
-    return top;
+    return null;
+  }
+
+  // --- Frozen panes ---
+
+  /**
+   * Height of the column group band at the top of the header, 0 without
+   * groups. The column labels take the rest of the header height.
+   */
+  public getGroupHeaderHeight(): number {
+    return this.stateManager.getColumnGroups().length
+      ? this.options.groupHeaderHeight
+      : 0;
+  }
+
+  /** Number of leading columns pinned on the left */
+  public getFrozenColumnCount(): number {
+    const columnCount = this.stateManager.getColumns().length;
+    return Math.max(0, Math.min(this.options.frozenColumns, columnCount));
+  }
+
+  /** Number of leading rows (in display order) pinned below the header */
+  public getFrozenRowCount(): number {
+    const dataLength = this.stateManager.dataLength;
+    return Math.max(0, Math.min(this.options.frozenRows, dataLength));
+  }
+
+  /** Total width of the frozen columns, without the row numbers */
+  public getFrozenWidth(): number {
+    const frozenColumnCount = this.getFrozenColumnCount();
+    if (!frozenColumnCount) return 0;
+    return this.getColumnLeft(frozenColumnCount) - this.options.rowNumberWidth;
+  }
+
+  /** Total height of the frozen rows, without the header */
+  public getFrozenHeight(): number {
+    const frozenRowCount = this.getFrozenRowCount();
+    if (!frozenRowCount) return 0;
+    return this.getRowTop(frozenRowCount) - this.options.headerHeight;
+  }
+
+  public isFrozenColumn(colIndex: number): boolean {
+    return colIndex >= 0 && colIndex < this.getFrozenColumnCount();
+  }
+
+  public isFrozenRow(rowIndex: number): boolean {
+    return rowIndex >= 0 && rowIndex < this.getFrozenRowCount();
+  }
+
+  /**
+   * Horizontal scroll offset at a canvas x position,
+   * 0 over the row numbers and the frozen columns
+   */
+  public getScrollLeftAt(canvasX: number): number {
+    const frozenRight = this.options.rowNumberWidth + this.getFrozenWidth();
+    return canvasX < frozenRight ? 0 : this.stateManager.getScrollLeft();
+  }
+
+  /**
+   * Vertical scroll offset at a canvas y position,
+   * 0 over the header and the frozen rows
+   */
+  public getScrollTopAt(canvasY: number): number {
+    const frozenBottom = this.options.headerHeight + this.getFrozenHeight();
+    return canvasY < frozenBottom ? 0 : this.stateManager.getScrollTop();
   }
 }
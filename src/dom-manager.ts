@@ -1,12 +1,19 @@
+let instanceCount = 0;
+
 export class DomManager {
   private container: HTMLElement;
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private editorInput: HTMLInputElement;
   private editorTextarea: HTMLTextAreaElement;
+  private customEditorContainer: HTMLDivElement;
   private dropdownWrapper: HTMLDivElement;
   private dropdown: HTMLDivElement;
+  private dropdownSearchContainer: HTMLDivElement;
   private dropdownSearchInput: HTMLInputElement;
+  private dropdownRangeContainer: HTMLDivElement;
+  private dropdownRangeFromInput: HTMLInputElement;
+  private dropdownRangeToInput: HTMLInputElement;
   private dropdownLoader: HTMLDivElement;
   private dropdownList: HTMLUListElement;
   private systemScrollbarWidth: number = 0;
@@ -18,6 +25,7 @@ export class DomManager {
   private dropdownClearButton: HTMLButtonElement;
 
   constructor(container: HTMLElement) {
+    const instanceId = ++instanceCount; // keeps the element ids unique per page
     this.container = container;
     this.container.style.position = "relative";
     this.container.tabIndex = -1; // Allow container to receive focus for keyboard events
@@ -34,14 +42,16 @@ export class DomManager {
     this.container.appendChild(this.canvas);
 
     this.hScrollbar = document.createElement("div");
-    this.hScrollbar.id = "spreadsheet-hscrollbar";
+    this.hScrollbar.id = `spreadsheet-hscrollbar-${instanceId}`;
+    this.hScrollbar.className = "spreadsheet-hscrollbar";
     this.hScrollbar.style.position = "absolute";
     this.hScrollbar.style.bottom = "0";
     this.hScrollbar.style.overflow = "auto";
     this.container.appendChild(this.hScrollbar);
 
     this.vScrollbar = document.createElement("div");
-    this.vScrollbar.id = "spreadsheet-vscrollbar";
+    this.vScrollbar.id = `spreadsheet-vscrollbar-${instanceId}`;
+    this.vScrollbar.className = "spreadsheet-vscrollbar";
     this.vScrollbar.style.position = "absolute";
     this.vScrollbar.style.right = "0";
     this.vScrollbar.style.width = `${this.systemScrollbarWidth}px`;
@@ -66,6 +76,14 @@ export class DomManager {
     this.editorTextarea.style.overflow = "auto";
     this.container.appendChild(this.editorTextarea);
 
+    // Container of the custom editors of the columns
+    this.customEditorContainer = document.createElement("div");
+    this.customEditorContainer.className = "spreadsheet-custom-editor";
+    this.customEditorContainer.style.position = "absolute";
+    this.customEditorContainer.style.display = "none";
+    this.customEditorContainer.style.boxSizing = "border-box";
+    this.container.appendChild(this.customEditorContainer);
+
     // Dropdown setup
     this.dropdown = document.createElement("div");
     this.dropdown.className = "spreadsheet-dropdown";
@@ -85,6 +103,7 @@ export class DomManager {
     searchContainer.style.padding = "5px";
     searchContainer.style.borderBottom = "1px solid #eee";
     searchContainer.style.flexShrink = "0"; // Don't shrink
+    this.dropdownSearchContainer = searchContainer;
 
     this.dropdownSearchInput = document.createElement("input");
     this.dropdownSearchInput.type = "text";
@@ -95,6 +114,27 @@ export class DomManager {
 
     searchContainer.appendChild(this.dropdownSearchInput);
 
+    // From/to inputs, only shown by the filter menu of number and date columns
+    this.dropdownRangeContainer = document.createElement("div");
+    this.dropdownRangeContainer.className = "spreadsheet-dropdown-range";
+    this.dropdownRangeContainer.style.display = "none";
+    this.dropdownRangeContainer.style.gap = "5px";
+    this.dropdownRangeContainer.style.padding = "5px";
+    this.dropdownRangeContainer.style.borderBottom = "1px solid #eee";
+    this.dropdownRangeContainer.style.flexShrink = "0";
+
+    this.dropdownRangeFromInput = document.createElement("input");
+    this.dropdownRangeToInput = document.createElement("input");
+    [this.dropdownRangeFromInput, this.dropdownRangeToInput].forEach(
+      (input) => {
+        input.style.flex = "1";
+        input.style.minWidth = "0";
+        input.style.boxSizing = "border-box";
+        input.style.padding = "4px";
+        this.dropdownRangeContainer.appendChild(input);
+      }
+    );
+
     // Create a list wrapper that will be scrollable
     const listWrapper = document.createElement("div");
     listWrapper.className = "spreadsheet-dropdown-list-wrapper";
@@ -195,15 +235,35 @@ export class DomManager {
     // append to the appropriate parents
     document.body.appendChild(this.dropdownWrapper);
     this.dropdown.appendChild(searchContainer);
+    this.dropdown.appendChild(this.dropdownRangeContainer);
     this.dropdown.appendChild(listWrapper); // List wrapper contains both list and loader
     this.dropdown.appendChild(this.dropdownFooter);
     this.dropdownWrapper.appendChild(this.dropdown);
   }
 
+  /** Removes the elements created for the spreadsheet, including the dropdown in the body */
+  public destroy(): void {
+    [
+      this.canvas,
+      this.hScrollbar,
+      this.vScrollbar,
+      this.editorInput,
+      this.editorTextarea,
+      this.customEditorContainer,
+      this.dropdownWrapper,
+    ].forEach((element) => element.remove());
+  }
+
   public toggleDropdownLoader(show: boolean): void {
     this.dropdownLoader.style.visibility = show ? "visible" : "hidden";
   }
 
+  /** True if the node is part of the spreadsheet, in the container or the dropdown */
+  public isSpreadsheetElement(node: Node | null): boolean {
+    if (!node) return false;
+    return this.container.contains(node) || this.dropdownWrapper.contains(node);
+  }
+
   public checkEventBoundInDropdown(event: MouseEvent): boolean {
     return this.dropdown.contains(event.target as Node);
   }
@@ -260,10 +320,14 @@ export class DomManager {
     const canvasWidth = this.container.clientWidth - this.systemScrollbarWidth;
     const canvasHeight =
       this.container.clientHeight - this.systemScrollbarWidth;
-    this.canvas.width = canvasWidth;
-    this.canvas.height = canvasHeight;
+    // Render the backing store at device resolution and keep drawing in CSS pixels
+    const pixelRatio = window.devicePixelRatio || 1;
+    this.canvas.width = Math.round(canvasWidth * pixelRatio);
+    this.canvas.height = Math.round(canvasHeight * pixelRatio);
     this.canvas.style.width = `${canvasWidth}px`;
     this.canvas.style.height = `${canvasHeight}px`;
+    // resizing the canvas resets the context, so the scale is set afterwards
+    this.ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
   }
 
   // Multi-select dropdown methods
@@ -333,9 +397,17 @@ export class DomManager {
     return this.editorTextarea;
   }
 
+  public getCustomEditorContainer(): HTMLDivElement {
+    return this.customEditorContainer;
+  }
+
   public getDropdownElements(): {
     dropdown: HTMLDivElement;
+    searchContainer: HTMLDivElement;
     searchInput: HTMLInputElement;
+    rangeContainer: HTMLDivElement;
+    rangeFromInput: HTMLInputElement;
+    rangeToInput: HTMLInputElement;
     loader: HTMLDivElement;
     list: HTMLUListElement;
     footer: HTMLDivElement;
@@ -344,7 +416,11 @@ export class DomManager {
   } {
     return {
       dropdown: this.dropdown,
+      searchContainer: this.dropdownSearchContainer,
       searchInput: this.dropdownSearchInput,
+      rangeContainer: this.dropdownRangeContainer,
+      rangeFromInput: this.dropdownRangeFromInput,
+      rangeToInput: this.dropdownRangeToInput,
       loader: this.dropdownLoader,
       list: this.dropdownList,
       footer: this.dropdownFooter,
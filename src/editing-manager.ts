@@ -1,13 +1,19 @@
 import {
   RequiredSpreadsheetOptions,
   ColumnSchema,
+  CustomEditor,
+  CustomEditorClass,
+  DataRow,
   DropdownItem,
+  ColumnFilter,
 } from "./types";
 import { StateManager } from "./state-manager";
 import { DomManager } from "./dom-manager";
 import { Renderer } from "./renderer";
+import { DimensionCalculator } from "./dimension-calculator";
 import { InteractionManager } from "./interaction-manager";
 import {
+  formatValue,
   formatValueForInput,
   parseValueFromInput,
   validateInput,
@@ -22,13 +28,20 @@ export class EditingManager {
   private stateManager: StateManager;
   private domManager: DomManager;
   private renderer: Renderer;
+  private dimensionCalculator: DimensionCalculator;
   private interactionManager: InteractionManager; // Needed for moving active cell
 
   // DOM Elements specific to editing
   private editorInput: HTMLInputElement;
   private editorTextarea: HTMLTextAreaElement;
+  private customEditorContainer: HTMLDivElement;
+  private customEditor: CustomEditor | null = null; // mounted editor of the edited cell
   private dropdown: HTMLDivElement;
+  private dropdownSearchContainer: HTMLDivElement;
   private dropdownSearchInput: HTMLInputElement;
+  private dropdownRangeContainer: HTMLDivElement;
+  private dropdownRangeFromInput: HTMLInputElement;
+  private dropdownRangeToInput: HTMLInputElement;
   private dropdownList: HTMLUListElement;
   private dropdownFooter: HTMLDivElement;
   private dropdownDoneButton: HTMLButtonElement;
@@ -37,8 +50,13 @@ export class EditingManager {
   private dropdownItems: DropdownItem[] = [];
   private highlightedDropdownIndex: number = -1;
   private selectedDropdownItems: Set<any> = new Set(); // Track multi-selected items
+  private filterMenuColumn: number | null = null; // Column of the open filter menu, it reuses the dropdown
   private DEFAULT_SAFE_MARGIN = 50;
-  private debouncedLazySearch: (searchTerm: string) => void;
+  private debouncedLazySearch: ((searchTerm: string) => void) & {
+    cancel: () => void;
+  };
+  private deactivateTimeout: ReturnType<typeof setTimeout> | null = null;
+  private adjustDropdownFrame: number | null = null;
 
   constructor(
     container: HTMLElement,
@@ -46,6 +64,7 @@ export class EditingManager {
     stateManager: StateManager,
     domManager: DomManager,
     renderer: Renderer,
+    dimensionCalculator: DimensionCalculator,
     interactionManager: InteractionManager
   ) {
     this.container = container;
@@ -53,14 +72,20 @@ export class EditingManager {
     this.stateManager = stateManager;
     this.domManager = domManager;
     this.renderer = renderer;
+    this.dimensionCalculator = dimensionCalculator;
     this.interactionManager = interactionManager;
 
     // Get references to DOM elements created by DomManager
     this.editorInput = this.domManager.getEditorInput();
     this.editorTextarea = this.domManager.getEditorTextarea();
+    this.customEditorContainer = this.domManager.getCustomEditorContainer();
     const dropdownElements = this.domManager.getDropdownElements();
     this.dropdown = dropdownElements.dropdown;
+    this.dropdownSearchContainer = dropdownElements.searchContainer;
     this.dropdownSearchInput = dropdownElements.searchInput;
+    this.dropdownRangeContainer = dropdownElements.rangeContainer;
+    this.dropdownRangeFromInput = dropdownElements.rangeFromInput;
+    this.dropdownRangeToInput = dropdownElements.rangeToInput;
     this.dropdownList = dropdownElements.list;
     this.dropdownFooter = dropdownElements.footer;
     this.dropdownDoneButton = dropdownElements.doneButton;
@@ -85,6 +110,12 @@ export class EditingManager {
       this._handleEditorKeyDown.bind(this)
     );
 
+    // Custom Editor Events, from the elements of the mounted editor
+    this.customEditorContainer.addEventListener(
+      "keydown",
+      this._handleCustomEditorKeyDown.bind(this)
+    );
+
     // Dropdown Events
     this.dropdown.addEventListener("mousedown", (e) => e.stopPropagation()); // Prevent closing dropdown when clicking inside
     this.dropdownSearchInput.addEventListener(
@@ -107,6 +138,29 @@ export class EditingManager {
       "click",
       this._handleDropdownClearButtonClick.bind(this)
     );
+    [this.dropdownRangeFromInput, this.dropdownRangeToInput].forEach(
+      (input) =>
+        input.addEventListener(
+          "keydown",
+          this._handleFilterMenuKeyDown.bind(this)
+        )
+    );
+  }
+
+  /** Cancels the pending lazy search, dropdown adjustment and deactivation, and destroys a mounted custom editor */
+  public destroy(): void {
+    this.debouncedLazySearch.cancel();
+    if (this.customEditor) {
+      this._destroyCustomEditor();
+    }
+    if (this.deactivateTimeout !== null) {
+      clearTimeout(this.deactivateTimeout);
+      this.deactivateTimeout = null;
+    }
+    if (this.adjustDropdownFrame !== null) {
+      cancelAnimationFrame(this.adjustDropdownFrame);
+      this.adjustDropdownFrame = null;
+    }
   }
 
   public isEditorActive(nonCustomEditor = false): boolean {
@@ -121,6 +175,10 @@ export class EditingManager {
   }
 
   private _handleDropdownClearButtonClick(): void {
+    if (this.filterMenuColumn !== null) {
+      this._applyFilterMenu(null);
+      return;
+    }
     this.selectedDropdownItems.clear();
     this.dropdownList
       .querySelectorAll("li input[type='checkbox']")
@@ -130,6 +188,10 @@ export class EditingManager {
   }
 
   private _handleDropdownDoneButtonClick(): void {
+    if (this.filterMenuColumn !== null) {
+      this._applyFilterMenu(this._getFilterFromMenu());
+      return;
+    }
     this.deactivateEditor(true, true);
     this.domManager.focusContainer();
   }
@@ -212,8 +274,13 @@ export class EditingManager {
     this.renderer.clearTemporaryErrors([{ row: rowIndex, col: colIndex }]);
 
     const cellValue = rowData?.[colKey];
+    // editors opened by the host with the onEditorOpen callback
     const isCustomEditor =
-      schema.type === "date" && customDatePicker && onEditorOpen ? true : false;
+      !!onEditorOpen &&
+      (!!schema.customEditor || (schema.type === "date" && customDatePicker));
+    const editorClass = isCustomEditor
+      ? null
+      : this._getCustomEditorClass(schema);
     this.stateManager.setActiveEditor({
       row: rowIndex,
       col: colIndex,
@@ -224,13 +291,16 @@ export class EditingManager {
 
     const { x, y, width: editorWidth, height: editorHeight } = bounds;
     // because the canvas is translated, we need to subtract the scroll position
-    const editorX = x - scrollLeft;
-    const editorY = y - scrollTop;
+    // unless the cell is in a frozen column or row
+    const editorX =
+      x - (this.dimensionCalculator.isFrozenColumn(colIndex) ? 0 : scrollLeft);
+    const editorY =
+      y - (this.dimensionCalculator.isFrozenRow(rowIndex) ? 0 : scrollTop);
 
     if (isCustomEditor) {
       try {
         onEditorOpen?.({
-          rowIndex,
+          rowIndex: this.stateManager.getDataRowIndex(rowIndex),
           colKey,
           rowData,
           bounds: {
@@ -243,6 +313,24 @@ export class EditingManager {
       } catch (error) {
         log("error", verbose, `Error calling onEditorOpen: ${error}`);
       }
+    } else if (editorClass) {
+      const container = this.customEditorContainer;
+      container.style.display = "block";
+      container.style.left = `${editorX}px`;
+      container.style.top = `${editorY}px`;
+      container.style.width = `${editorWidth}px`;
+      container.style.height = `${editorHeight}px`;
+      const mounted = this._mountCustomEditor(
+        editorClass,
+        container,
+        rowIndex,
+        colKey,
+        schema,
+        cellValue,
+        rowData,
+        initialChar
+      );
+      if (!mounted) return;
     } else if (schema?.type === "select" || schema?.type === "boolean") {
       this._showDropdown(
         rowIndex,
@@ -289,6 +377,10 @@ export class EditingManager {
           this.editorInput.type = "email";
         } else if (schema?.type === "date") {
           this.editorInput.type = "date";
+        } else if (schema?.type === "datetime") {
+          this.editorInput.type = "datetime-local";
+        } else if (schema?.type === "time") {
+          this.editorInput.type = "time";
         } else {
           this.editorInput.type = "text";
           this.editorInput.placeholder = schema?.placeholder || "";
@@ -296,7 +388,11 @@ export class EditingManager {
       }
 
       // Format and set the value
-      const formattedValue = formatValueForInput(cellValue, schema?.type);
+      const formattedValue = formatValueForInput(
+        cellValue,
+        schema?.type,
+        this.options.timeZone
+      );
 
       if (isMultiline) {
         this.editorTextarea.value = formattedValue;
@@ -321,7 +417,9 @@ export class EditingManager {
             (schema?.type === "number" && initialChar.match(/^\d*\.?\d*$/)))
         ) {
           this.editorInput.value = initialChar;
-        } else if (schema?.type === "date") {
+        } else if (
+          ["date", "datetime", "time"].includes(schema?.type as string)
+        ) {
           this.editorInput.showPicker();
         } else {
           this.editorInput.select();
@@ -333,7 +431,7 @@ export class EditingManager {
     // call the onEditorOpened callback
     try {
       this.options.onEditorOpened?.({
-        row: rowIndex,
+        row: this.stateManager.getDataRowIndex(rowIndex),
         col: colIndex,
         schema,
       });
@@ -357,7 +455,27 @@ export class EditingManager {
     let valueChanged = false;
     let redrawRequired = false;
 
-    if (type === "select" || type === "boolean") {
+    if (this.customEditor) {
+      const editor = this.customEditor;
+      if (saveChanges) {
+        try {
+          valueChanged = this._saveEditorValue(
+            row,
+            col,
+            editor.getValue(),
+            originalValue
+          );
+        } catch (error) {
+          log(
+            "error",
+            this.options.verbose,
+            `Error getting the value of the custom editor: ${error}`
+          );
+        }
+      }
+      this._destroyCustomEditor();
+      redrawRequired = true; // Hiding editor requires redraw
+    } else if (type === "select" || type === "boolean") {
       // For dropdowns, the value is updated on click, just need to check if it changed
       const isMultiSelect = this.domManager.isDropdownMultiSelect();
 
@@ -376,15 +494,17 @@ export class EditingManager {
           }
 
           if (different) {
-            this.stateManager.updateCellInternal(row, col, valueToSet);
-            valueChanged = true;
             const colKey = this.stateManager.getColumnKey(col);
-            // Update disabled states for the row after the change
-            this.interactionManager._batchUpdateCellsAndNotify(
-              [row],
-              [colKey],
-              [{ [colKey]: originalValue }]
-            );
+            this.stateManager.transaction(() => {
+              this.stateManager.updateCellInternal(row, col, valueToSet);
+              // Update disabled states for the row after the change
+              this.interactionManager._batchUpdateCellsAndNotify(
+                [row],
+                [colKey],
+                [{ [colKey]: originalValue }]
+              );
+            });
+            valueChanged = true;
           }
         }
         // for single select, its handled by the click event, so nothing to do here
@@ -410,52 +530,21 @@ export class EditingManager {
             : this.editorInput.value;
 
           const schemaCol = this.stateManager.getSchemaForColumn(col);
-          const colKey = this.stateManager.getColumnKey(col);
           // if the column has autoTrim, trim the value
           if (schemaCol?.autoTrim) {
             newValueRaw = newValueRaw?.trim();
           }
-          const newValue = parseValueFromInput(newValueRaw, schemaCol?.type);
-          const validationResult = validateInput(
+          const newValue = parseValueFromInput(
+            newValueRaw,
+            schemaCol?.type,
+            this.options.timeZone
+          );
+          valueChanged = this._saveEditorValue(
+            row,
+            col,
             newValue,
-            schemaCol,
-            colKey,
-            this.stateManager.cachedDropdownOptionsByColumn.get(colKey),
-            this.options.verbose,
-            this.stateManager.getData(true),
-            row
+            originalValue
           );
-          if ("error" in validationResult) {
-            log("log", this.options.verbose, validationResult.error);
-            // Potentially show an error message to the user here
-            if (validationResult.errorType === "required" && !originalValue) {
-              this.stateManager.updateCell(
-                row,
-                `${ERROR_FIELD_PREFIX}${colKey}`,
-                validationResult.error
-              );
-            } else {
-              this.renderer.setTemporaryErrors([
-                { row, col, error: validationResult.error },
-              ]);
-            }
-            redrawRequired = true;
-          } else {
-            this.stateManager.removeCellValue(
-              row,
-              `${ERROR_FIELD_PREFIX}${colKey}`
-            );
-            if (newValue !== originalValue) {
-              this.stateManager.updateCellInternal(row, col, newValue); // Update data directly
-              valueChanged = true;
-              // Update disabled states for the row after the change
-              this.interactionManager._batchUpdateCellsAndNotify(
-                [row],
-                [colKey],
-                [{ [colKey]: originalValue }]
-              );
-            }
-          }
         }
 
         // Hide and reset the active editor
@@ -490,7 +579,7 @@ export class EditingManager {
     // call the onEditorClosed callback
     try {
       this.options.onEditorClosed?.({
-        row,
+        row: this.stateManager.getDataRowIndex(row),
         col,
       });
     } catch (error) {
@@ -502,6 +591,182 @@ export class EditingManager {
     }
   }
 
+  /**
+   * Validates the value of an editor and saves it as one undo step, an invalid
+   * value is flashed as an error. Returns true if the value changed
+   */
+  private _saveEditorValue(
+    row: number,
+    col: number,
+    newValue: any,
+    originalValue: any
+  ): boolean {
+    const schemaCol = this.stateManager.getSchemaForColumn(col);
+    const colKey = this.stateManager.getColumnKey(col);
+    let valueChanged = false;
+    this.stateManager.beginTransaction();
+    try {
+      const validationResult = validateInput(
+        newValue,
+        schemaCol,
+        colKey,
+        this.stateManager.cachedDropdownOptionsByColumn.get(colKey),
+        this.options.verbose,
+        this.stateManager.getData(true),
+        this.stateManager.getDataRowIndex(row)
+      );
+      if ("error" in validationResult) {
+        log("log", this.options.verbose, validationResult.error);
+        // Potentially show an error message to the user here
+        if (validationResult.errorType === "required" && !originalValue) {
+          this.stateManager.updateCell(
+            row,
+            `${ERROR_FIELD_PREFIX}${colKey}`,
+            validationResult.error
+          );
+        } else {
+          this.renderer.setTemporaryErrors([
+            { row, col, error: validationResult.error },
+          ]);
+        }
+      } else {
+        this.stateManager.removeCellValue(
+          row,
+          `${ERROR_FIELD_PREFIX}${colKey}`
+        );
+        if (newValue !== originalValue) {
+          this.stateManager.updateCellInternal(row, col, newValue); // Update data directly
+          valueChanged = true;
+          // Update disabled states for the row after the change
+          this.interactionManager._batchUpdateCellsAndNotify(
+            [row],
+            [colKey],
+            [{ [colKey]: originalValue }]
+          );
+        }
+      }
+    } finally {
+      this.stateManager.commitTransaction();
+    }
+    return valueChanged;
+  }
+
+  // --- Custom Editors ---
+  /** The editor class of a column, looked up in the customEditors option by name */
+  private _getCustomEditorClass(
+    schema: ColumnSchema
+  ): CustomEditorClass | null {
+    if (typeof schema.editor === "string") {
+      return this.options.customEditors[schema.editor] ?? null;
+    }
+    return schema.editor ?? null;
+  }
+
+  /** Mounts a custom editor over a cell. Returns false if it failed and the editor was closed */
+  private _mountCustomEditor(
+    editorClass: CustomEditorClass,
+    container: HTMLDivElement,
+    rowIndex: number,
+    colKey: string,
+    schema: ColumnSchema,
+    value: any,
+    rowData: DataRow,
+    initialChar?: string
+  ): boolean {
+    try {
+      const editor = new editorClass();
+      this.customEditor = editor;
+      // the controls do nothing once this editor is closed
+      const close = (saveChanges: boolean) => {
+        if (this.customEditor !== editor) return;
+        this.deactivateEditor(saveChanges, true);
+        this.domManager.focusContainer();
+      };
+      editor.mount(container, {
+        rowIndex: this.stateManager.getDataRowIndex(rowIndex),
+        colKey,
+        value,
+        rowData,
+        schema,
+        initialChar,
+        commit: () => close(true),
+        cancel: () => close(false),
+      });
+      return true;
+    } catch (error) {
+      log(
+        "error",
+        this.options.verbose,
+        `Error mounting the editor of ${colKey}: ${error}`
+      );
+      this._destroyCustomEditor();
+      this.deactivateEditor(false, true);
+      return false;
+    }
+  }
+
+  /** True if the node belongs to the mounted custom editor, including its popups */
+  public isCustomEditorElement(node: Node | null): boolean {
+    if (!this.customEditor || !node) return false;
+    if (this.customEditorContainer.contains(node)) return true;
+    try {
+      return !!this.customEditor.contains?.(node);
+    } catch (error) {
+      log(
+        "error",
+        this.options.verbose,
+        `Error calling contains of the custom editor: ${error}`
+      );
+      return false;
+    }
+  }
+
+  private _destroyCustomEditor(): void {
+    const editor = this.customEditor;
+    this.customEditor = null;
+    try {
+      editor?.destroy();
+    } catch (error) {
+      log(
+        "error",
+        this.options.verbose,
+        `Error destroying the custom editor: ${error}`
+      );
+    }
+    this.customEditorContainer.style.display = "none";
+    this.customEditorContainer.replaceChildren();
+  }
+
+  /** Enter and Tab save and move like the input editor, Escape discards */
+  private _handleCustomEditorKeyDown(event: KeyboardEvent): void {
+    // keys handled by the editor itself, e.g. Enter in a rich text editor
+    if (!this.customEditor || event.defaultPrevented) return;
+    let rowDelta = 0;
+    let colDelta = 0;
+    if (event.key === "Enter" && !event.shiftKey) {
+      rowDelta = 1;
+    } else if (event.key === "Tab") {
+      colDelta = event.shiftKey ? -1 : 1;
+    } else if (event.key !== "Escape") {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation(); // the document handler would move again
+    if (event.key === "Escape") {
+      this.deactivateEditor(false, true); // Discard changes, activate cell
+      this.domManager.focusContainer();
+      return;
+    }
+    this.deactivateEditor(true);
+    this.domManager.focusContainer();
+    if (this.interactionManager.moveActiveCell(rowDelta, colDelta)) {
+      // clear selections and selection range after moving
+      this.interactionManager.clearSelections();
+      this.stateManager.clearSelectionRange();
+      this.renderer.draw();
+    }
+  }
+
   public hasEditorSelection(): boolean {
     return this.highlightedDropdownIndex >= 0;
   }
@@ -673,7 +938,8 @@ export class EditingManager {
 
   private _adjustDropdown(wasSameColumn = false) {
     // Use requestAnimationFrame to measure after display:block takes effect
-    requestAnimationFrame(() => {
+    this.adjustDropdownFrame = requestAnimationFrame(() => {
+      this.adjustDropdownFrame = null;
       const dropdownBounds = this.dropdown.getBoundingClientRect();
       let dropdownHeight = dropdownBounds.height;
 
@@ -705,6 +971,8 @@ export class EditingManager {
 
           // Add height for the search input (approximately 40px)
           contentHeight += this.dropdownSearchInput.offsetHeight;
+          // and for the range inputs of the filter menu (0 when hidden)
+          contentHeight += this.dropdownRangeContainer.offsetHeight;
 
           // Add height for footer if visible (approximately 40px)
           if (this.dropdownFooter.style.display !== "none") {
@@ -738,9 +1006,10 @@ export class EditingManager {
 
       // Show/hide the Done button based on multi-select mode
       const isMultiSelect = this.domManager.isDropdownMultiSelect();
-      this.dropdownDoneButton.style.display = isMultiSelect
-        ? "inline-block"
-        : "none";
+      this.dropdownDoneButton.style.display =
+        isMultiSelect || this.filterMenuColumn !== null
+          ? "inline-block"
+          : "none";
     });
   }
 
@@ -801,7 +1070,7 @@ export class EditingManager {
       {
         const filterValues = schemaCol.filterValues?.(
           this.stateManager.getRowData(rowIndex) || {},
-          rowIndex
+          this.stateManager.getDataRowIndex(rowIndex)
         );
         if (filterValues && filterValues instanceof Promise) {
           const jobId = this.stateManager.getActiveEditor()?.asyncJobId;
@@ -921,7 +1190,7 @@ export class EditingManager {
     // call the onEditorOpened callback
     try {
       this.options.onEditorOpened?.({
-        row: rowIndex,
+        row: this.stateManager.getDataRowIndex(rowIndex),
         col: colIndex,
         schema: schemaCol,
       });
@@ -939,16 +1208,31 @@ export class EditingManager {
       this.dropdown.style.display = "none";
       this.highlightedDropdownIndex = -1;
     }
+    if (this.filterMenuColumn !== null) {
+      // restore the elements for the cell editor
+      this.filterMenuColumn = null;
+      this.dropdownSearchContainer.style.display = "";
+      this.dropdownRangeContainer.style.display = "none";
+    }
     // hide the loader
     this.domManager.toggleDropdownLoader(false);
   }
 
   private _handleDropdownSearch(): void {
     const searchTerm = this.dropdownSearchInput.value.toLowerCase();
+    // the text filter uses the search input as its value
+    if (
+      this.filterMenuColumn !== null &&
+      !this.domManager.isDropdownMultiSelect()
+    ) {
+      return;
+    }
 
     const activeEditor = this.stateManager.getActiveEditor();
-    if (!activeEditor) return;
-    const schemaCol = this.stateManager.getSchemaForColumn(activeEditor.col);
+    const schemaCol = activeEditor
+      ? this.stateManager.getSchemaForColumn(activeEditor.col)
+      : undefined;
+    if (!activeEditor && this.filterMenuColumn === null) return;
 
     if (schemaCol?.lazySearch && this.options.onLazySearch) {
       // Show loading indicator
@@ -1010,7 +1294,7 @@ export class EditingManager {
       const jobId = this.stateManager.getActiveEditor()?.asyncJobId;
       const items = await lazySearch({
         searchTerm,
-        rowIndex: row,
+        rowIndex: this.stateManager.getDataRowIndex(row),
         colKey,
         rowData,
       });
@@ -1058,6 +1342,10 @@ export class EditingManager {
   private _handleDropdownKeyDown(event: KeyboardEvent): void {
     // is dropdown open?
     if (!this.isDropdownVisible()) return;
+    if (this.filterMenuColumn !== null) {
+      this._handleFilterMenuKeyDown(event);
+      return;
+    }
     const visibleItems = Array.from(
       this.dropdownList.querySelectorAll("li:not(.hidden)")
     ) as HTMLLIElement[];
@@ -1114,16 +1402,18 @@ export class EditingManager {
               const colKey = this.stateManager.getColumnKey(col);
               const valueToSet = Array.from(this.selectedDropdownItems);
 
-              const oldValue = this.stateManager.updateCellInternal(
-                row,
-                col,
-                valueToSet
-              );
-              this.interactionManager._batchUpdateCellsAndNotify(
-                [row],
-                [colKey],
-                [{ [colKey]: oldValue }]
-              );
+              this.stateManager.transaction(() => {
+                const oldValue = this.stateManager.updateCellInternal(
+                  row,
+                  col,
+                  valueToSet
+                );
+                this.interactionManager._batchUpdateCellsAndNotify(
+                  [row],
+                  [colKey],
+                  [{ [colKey]: oldValue }]
+                );
+              });
             }
             return;
           }
@@ -1197,6 +1487,11 @@ export class EditingManager {
       return;
     }
 
+    if (this.filterMenuColumn !== null) {
+      this._handleFilterMenuItemClick(li);
+      return;
+    }
+
     const activeEditor = this.stateManager.getActiveEditor();
     if (!activeEditor) return;
 
@@ -1243,20 +1538,275 @@ export class EditingManager {
     }
 
     // Update the data in the state manager
-    const oldValue = this.stateManager.updateCellInternal(row, col, valueToSet);
-
-    this.interactionManager._batchUpdateCellsAndNotify(
-      [row],
-      [colKey],
-      [{ [colKey]: oldValue }]
-    ); // Update disabled states after change
+    this.stateManager.transaction(() => {
+      const oldValue = this.stateManager.updateCellInternal(
+        row,
+        col,
+        valueToSet
+      );
+      this.interactionManager._batchUpdateCellsAndNotify(
+        [row],
+        [colKey],
+        [{ [colKey]: oldValue }]
+      ); // Update disabled states after change
+    });
 
     // delay the dropdown deactivation to stop the same keyup event from reopening the dropdown
-    setTimeout(() => {
+    this.deactivateTimeout = setTimeout(() => {
+      this.deactivateTimeout = null;
       this.deactivateEditor(false); // Deactivate editor (changes already saved)
       // Optionally move to the next cell after selection
       // this.interactionManager.moveActiveCell(1, 0);
       this.domManager.focusContainer(); // Return focus to the main grid container
     }, 200);
   }
+
+  // --- Filter Menu ---
+  public getFilterMenuColumn(): number | null {
+    return this.isDropdownVisible() ? this.filterMenuColumn : null;
+  }
+
+  /**
+   * Opens the filter menu of a column below its filter icon.
+   * Select and boolean columns get a list of values to check, number and
+   * date columns a from/to range, other columns a "contains" input.
+   */
+  public showFilterMenu(colIndex: number): void {
+    const colKey = this.stateManager.getColumnKey(colIndex);
+    const schemaCol = this.stateManager.getSchemaForColumn(colIndex);
+    const iconBounds = this.renderer.getHeaderIconBounds(colIndex, "filter");
+    if (!schemaCol || !iconBounds) return;
+
+    this.deactivateEditor(true);
+    this.hideDropdown();
+    this.filterMenuColumn = colIndex;
+
+    const { blankDropdownItemLabel, headerHeight } = this.options;
+    const filter = this.stateManager.getFilter(colKey);
+    const isValueList =
+      schemaCol.type === "select" || schemaCol.type === "boolean";
+    const isRange = schemaCol.type === "number" || schemaCol.type === "date";
+    this.domManager.setDropdownMultiSelect(isValueList);
+    this.domManager.toggleDropdownLoader(false);
+    this.selectedDropdownItems.clear();
+
+    if (isValueList) {
+      const cachedOptions =
+        this.stateManager.cachedDropdownOptionsByColumn.get(colKey);
+      const values =
+        schemaCol.type === "boolean"
+          ? [true, false]
+          : this.stateManager.getColumnValues(colKey);
+      const items = values.map((value) => ({
+        id: value,
+        name: formatValue(value, schemaCol.type, cachedOptions) || `${value}`,
+      }));
+      if (schemaCol.type === "select") {
+        items.sort((a, b) =>
+          a.name.localeCompare(b.name, undefined, { numeric: true })
+        );
+      }
+      this.dropdownItems = [
+        { id: null, name: blankDropdownItemLabel },
+        ...items,
+      ];
+      // without a value filter every item is checked
+      const checkedValues =
+        filter?.type === "values"
+          ? filter.values
+          : this.dropdownItems.map((item) => item.id);
+      checkedValues.forEach((value) => this.selectedDropdownItems.add(value));
+    } else {
+      this.dropdownItems = [
+        { id: "blank", name: blankDropdownItemLabel },
+        { id: "notBlank", name: "(Not blank)" },
+      ];
+    }
+
+    this.dropdownSearchContainer.style.display = isRange ? "none" : "";
+    this.dropdownRangeContainer.style.display = isRange ? "flex" : "none";
+    this.dropdownSearchInput.value =
+      filter?.type === "text" ? filter.contains : "";
+    this.dropdownSearchInput.placeholder = isValueList
+      ? "Search..."
+      : "Contains...";
+    if (isRange) {
+      const isDate = schemaCol.type === "date";
+      this.dropdownRangeFromInput.type = isDate ? "date" : "number";
+      this.dropdownRangeToInput.type = isDate ? "date" : "number";
+      this.dropdownRangeFromInput.placeholder = isDate ? "From" : "Min";
+      this.dropdownRangeToInput.placeholder = isDate ? "To" : "Max";
+      let from: any = null;
+      let to: any = null;
+      if (filter?.type === "number") {
+        from = filter.min;
+        to = filter.max;
+      } else if (filter?.type === "date") {
+        from = filter.from;
+        to = filter.to;
+      }
+      this.dropdownRangeFromInput.value = from == null ? "" : `${from}`;
+      this.dropdownRangeToInput.value = to == null ? "" : `${to}`;
+    }
+
+    this._populateDropdown(true);
+    this.dropdownFooter.style.display = "block";
+
+    // convert bounds into absolute position, below the header
+    const scrollLeft = this.dimensionCalculator.isFrozenColumn(colIndex)
+      ? 0
+      : this.stateManager.getScrollLeft();
+    const absoluteX = iconBounds.x - scrollLeft + this.container.offsetLeft;
+    const absoluteY = headerHeight + this.container.offsetTop;
+    this.dropdown.style.display = "flex";
+    this.dropdown.style.left = `${absoluteX}px`;
+    this.dropdown.style.top = `${absoluteY}px`;
+    this.dropdown.style.minWidth = "200px";
+    this.dropdown.style.width = "220px";
+    this.dropdown.style.maxHeight = "400px";
+    this.dropdown.style.resize = "both";
+    this.dropdown.style.overflow = "hidden";
+    this.dropdown.setAttribute(
+      "data-right-x",
+      `${absoluteX + iconBounds.width}`
+    );
+    this.dropdown.setAttribute("data-absolute-y", `${absoluteY}`);
+    this.dropdown.setAttribute("data-bounds-height", `${headerHeight}`);
+    // the next cell dropdown has to be sized again
+    this.dropdown.setAttribute("data-column", "");
+    this._adjustDropdown();
+
+    this._filterDropdown("");
+    this.highlightedDropdownIndex = -1;
+    this._updateDropdownHighlight(
+      Array.from(
+        this.dropdownList.querySelectorAll("li:not(.hidden)")
+      ) as HTMLLIElement[]
+    );
+    if (isRange) {
+      this.dropdownRangeFromInput.focus();
+    } else {
+      this.dropdownSearchInput.focus();
+    }
+  }
+
+  /** Builds the filter from the menu inputs, null if nothing is filtered */
+  private _getFilterFromMenu(): ColumnFilter | null {
+    if (this.filterMenuColumn === null) return null;
+    const schemaCol = this.stateManager.getSchemaForColumn(
+      this.filterMenuColumn
+    );
+    switch (schemaCol?.type) {
+      case "select":
+      case "boolean": {
+        const values = this.dropdownItems
+          .map((item) => item.id)
+          .filter((id) => this.selectedDropdownItems.has(id));
+        if (values.length === this.dropdownItems.length) return null;
+        return { type: "values", values };
+      }
+      case "number": {
+        const min = parseValueFromInput(
+          this.dropdownRangeFromInput.value,
+          "number"
+        );
+        const max = parseValueFromInput(
+          this.dropdownRangeToInput.value,
+          "number"
+        );
+        if (min === null && max === null) return null;
+        return { type: "number", min, max };
+      }
+      case "date": {
+        const from = this.dropdownRangeFromInput.value || null;
+        const to = this.dropdownRangeToInput.value || null;
+        if (from === null && to === null) return null;
+        return { type: "date", from, to };
+      }
+      default: {
+        const contains = this.dropdownSearchInput.value.trim();
+        if (!contains) return null;
+        return { type: "text", contains };
+      }
+    }
+  }
+
+  private _applyFilterMenu(filter: ColumnFilter | null): void {
+    const colIndex = this.filterMenuColumn;
+    if (colIndex === null) return;
+    const colKey = this.stateManager.getColumnKey(colIndex);
+    const iconBounds = this.renderer.getHeaderIconBounds(colIndex, "filter");
+    this.hideDropdown();
+    this.domManager.focusContainer();
+    if (this.interactionManager.setColumnFilter(colKey, filter)) {
+      // the row count changed, keep the filtered column in view
+      this.interactionManager.triggerCustomEvent(
+        "resize",
+        iconBounds
+          ? { ...iconBounds, y: this.options.headerHeight, height: 0 }
+          : null
+      );
+    }
+  }
+
+  private _handleFilterMenuItemClick(li: HTMLLIElement): void {
+    const itemIndex = parseInt(li.dataset.index || "-1", 10);
+    const item = this.dropdownItems[itemIndex];
+    if (!item) return;
+    if (!this.domManager.isDropdownMultiSelect()) {
+      this._applyFilterMenu({ type: item.id as "blank" | "notBlank" });
+      return;
+    }
+    if (this.selectedDropdownItems.has(item.id)) {
+      this.selectedDropdownItems.delete(item.id);
+    } else {
+      this.selectedDropdownItems.add(item.id);
+    }
+    const checkbox = li.querySelector(
+      'input[type="checkbox"]'
+    ) as HTMLInputElement;
+    if (checkbox) {
+      checkbox.checked = this.selectedDropdownItems.has(item.id);
+    }
+  }
+
+  private _handleFilterMenuKeyDown(event: KeyboardEvent): void {
+    const visibleItems = Array.from(
+      this.dropdownList.querySelectorAll("li:not(.hidden)")
+    ) as HTMLLIElement[];
+    const highlighted = visibleItems[this.highlightedDropdownIndex];
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        event.preventDefault();
+        if (!visibleItems.length) return;
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        this.highlightedDropdownIndex =
+          (this.highlightedDropdownIndex + step + visibleItems.length) %
+          visibleItems.length;
+        this._updateDropdownHighlight(visibleItems);
+        return;
+      }
+      case " ":
+        // toggle the highlighted value, otherwise type the space
+        if (highlighted && this.domManager.isDropdownMultiSelect()) {
+          event.preventDefault();
+          this._handleFilterMenuItemClick(highlighted);
+        }
+        return;
+      case "Enter":
+        event.preventDefault();
+        if (highlighted && !this.domManager.isDropdownMultiSelect()) {
+          this._handleFilterMenuItemClick(highlighted);
+        } else {
+          this._applyFilterMenu(this._getFilterFromMenu());
+        }
+        return;
+      case "Escape":
+        event.preventDefault();
+        this.hideDropdown();
+        this.domManager.focusContainer();
+        return;
+    }
+  }
 }
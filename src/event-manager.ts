@@ -3,16 +3,21 @@ import {
   CellCoords,
   ValidationError,
   CellBounds,
+  ColumnGroupSpan,
+  HeaderIcon,
 } from "./types";
 import { EditingManager } from "./editing-manager";
 import { InteractionManager } from "./interaction-manager";
 import { StateManager } from "./state-manager";
 import { DimensionCalculator } from "./dimension-calculator";
 import { Renderer } from "./renderer";
-import { log } from "./utils";
+import { log, parseClipboardText } from "./utils";
 import { DomManager } from "./dom-manager";
 import { ERROR_FIELD_PREFIX } from "./config";
 
+/** The spreadsheet that receives the document keyboard events, the last one focused or clicked until the focus or a click moves elsewhere */
+let keyboardTarget: EventManager | null = null;
+
 export class EventManager {
   private container: HTMLElement;
   private canvas: HTMLCanvasElement;
@@ -28,6 +33,8 @@ export class EventManager {
   private vScrollbar: HTMLDivElement;
 
   private resizeTimeout: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private listenerController = new AbortController();
   private _ignoreNextClick = false; // Flag to ignore click after drag mouseup
   private isCtrl = false;
 
@@ -70,81 +77,159 @@ export class EventManager {
   }
 
   public bindEvents(): void {
+    // every listener is removed at once by destroy()
+    const { signal } = this.listenerController;
     // Container Events
-    this.container.addEventListener("wheel", this._handleWheel.bind(this));
-    this.hScrollbar.addEventListener("scroll", this._handleHScroll.bind(this));
-    this.vScrollbar.addEventListener("scroll", this._handleVScroll.bind(this));
+    this.container.addEventListener("wheel", this._handleWheel.bind(this), {
+      signal,
+    });
+    // route the document keyboard events to this spreadsheet
+    const setKeyboardTarget = () => (keyboardTarget = this);
+    this.container.addEventListener("focusin", setKeyboardTarget, { signal });
+    this.container.addEventListener("mousedown", setKeyboardTarget, {
+      signal,
+    });
+    // an element outside the spreadsheet took the focus, e.g. another input
+    this.container.addEventListener(
+      "focusout",
+      (event) => {
+        const relatedTarget = event.relatedTarget as Node | null;
+        if (
+          keyboardTarget === this &&
+          relatedTarget &&
+          !this.domManager.isSpreadsheetElement(relatedTarget) &&
+          !this.editingManager.isCustomEditorElement(relatedTarget)
+        ) {
+          keyboardTarget = null;
+        }
+      },
+      { signal }
+    );
+    this.hScrollbar.addEventListener("scroll", this._handleHScroll.bind(this), {
+      signal,
+    });
+    this.vScrollbar.addEventListener("scroll", this._handleVScroll.bind(this), {
+      signal,
+    });
 
     // Canvas Events
     this.canvas.addEventListener(
       "dblclick",
-      this._handleDoubleClick.bind(this)
+      this._handleDoubleClick.bind(this),
+      { signal }
     );
-    this.canvas.addEventListener("click", this._handleClick.bind(this));
+    this.canvas.addEventListener("click", this._handleClick.bind(this), {
+      signal,
+    });
     this.canvas.addEventListener(
       "mousedown",
-      this._handleCanvasMouseDown.bind(this)
+      this._handleCanvasMouseDown.bind(this),
+      { signal }
     );
     // Mouse move handled on document to capture movement outside canvas during drag/resize
     this.canvas.addEventListener(
       "contextmenu",
-      this._handleCanvasContextMenu.bind(this)
+      this._handleCanvasContextMenu.bind(this),
+      { signal }
     );
     // Document/Window Events
     document.addEventListener(
       "mousemove",
-      this._handleDocumentMouseMove.bind(this)
+      this._handleDocumentMouseMove.bind(this),
+      { signal }
     );
     document.addEventListener(
       "mouseup",
-      this._handleDocumentMouseUp.bind(this)
+      this._handleDocumentMouseUp.bind(this),
+      { signal }
     );
     // add resize observer listener instead of window resize event
-    new ResizeObserver(() => {
+    this.resizeObserver = new ResizeObserver(() => {
       this._handleResize();
-    }).observe(this.container);
+    });
+    this.resizeObserver.observe(this.container);
+    this._watchPixelRatio();
     document.addEventListener(
       "mousedown",
       this._handleGlobalMouseDown.bind(this),
-      true
+      { capture: true, signal }
     ); // Use capture phase
     document.addEventListener(
       "keydown",
-      this._handleDocumentKeyDown.bind(this)
+      this._handleDocumentKeyDown.bind(this),
+      { signal }
     );
-    document.addEventListener("keyup", this._handleDocumentKeyUp.bind(this));
-    // Add listener for the native paste event on the container
-    this.container.addEventListener("paste", this._handlePaste.bind(this));
+    document.addEventListener("keyup", this._handleDocumentKeyUp.bind(this), {
+      signal,
+    });
+    // Add listeners for the native copy, cut and paste events on the container
+    this.container.addEventListener("copy", this._handleCopy.bind(this), {
+      signal,
+    });
+    this.container.addEventListener("cut", this._handleCut.bind(this), {
+      signal,
+    });
+    this.container.addEventListener("paste", this._handlePaste.bind(this), {
+      signal,
+    });
 
     // Touch Events
     this.canvas.addEventListener(
       "touchstart",
-      this._handleTouchStart.bind(this)
+      this._handleTouchStart.bind(this),
+      { signal }
     );
-    this.canvas.addEventListener("touchmove", this._handleTouchMove.bind(this));
-    this.canvas.addEventListener("touchend", this._handleTouchEnd.bind(this));
+    this.canvas.addEventListener(
+      "touchmove",
+      this._handleTouchMove.bind(this),
+      { signal }
+    );
+    this.canvas.addEventListener("touchend", this._handleTouchEnd.bind(this), {
+      signal,
+    });
     this.canvas.addEventListener(
       "touchcancel",
-      this._handleTouchEnd.bind(this)
+      this._handleTouchEnd.bind(this),
+      { signal }
     );
 
     // Editing Manager binds its own internal events (blur, keydown on input/dropdown)
     this.editingManager.bindInternalEvents();
 
     // Prevent arrow key navigation in the spreadsheet
-    window.addEventListener("keydown", (event) => {
-      if (
-        event.key.startsWith("Arrow") &&
-        document.activeElement === this.container
-      ) {
-        const activeCell = this.stateManager.getActiveCell();
-        const isActiveCellValid =
-          activeCell && activeCell.row !== null && activeCell.col !== null;
-        if (activeCell && isActiveCellValid) {
-          event.preventDefault();
+    window.addEventListener(
+      "keydown",
+      (event) => {
+        if (
+          event.key.startsWith("Arrow") &&
+          document.activeElement === this.container
+        ) {
+          const activeCell = this.stateManager.getActiveCell();
+          const isActiveCellValid =
+            activeCell && activeCell.row !== null && activeCell.col !== null;
+          if (activeCell && isActiveCellValid) {
+            event.preventDefault();
+          }
         }
-      }
-    });
+      },
+      { signal }
+    );
+  }
+
+  /** Removes all listeners and cancels the pending timers */
+  public destroy(): void {
+    this.listenerController.abort();
+    if (keyboardTarget === this) keyboardTarget = null;
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    if (this.resizeTimeout) {
+      clearTimeout(this.resizeTimeout);
+      this.resizeTimeout = null;
+    }
+    if (this.kineticScrollInterval !== null) {
+      window.clearInterval(this.kineticScrollInterval);
+      this.kineticScrollInterval = null;
+    }
   }
 
   private redraw(shouldAutoResize = false) {
@@ -214,6 +299,22 @@ export class EventManager {
     }, 100); // Debounce resize event
   }
 
+  /**
+   * Rescales the canvas when the devicePixelRatio changes, e.g. when the
+   * window moves to a monitor with a different density or the page is zoomed
+   */
+  private _watchPixelRatio(): void {
+    const query = `(resolution: ${window.devicePixelRatio || 1}dppx)`;
+    window.matchMedia(query).addEventListener(
+      "change",
+      () => {
+        this._handleResize();
+        this._watchPixelRatio(); // the query only matches the previous ratio
+      },
+      { once: true, signal: this.listenerController.signal }
+    );
+  }
+
   private _handleDoubleClick(event: MouseEvent): void {
     if (this.stateManager.isResizing()) {
       log(
@@ -277,7 +378,10 @@ export class EventManager {
       coords.col === null &&
       this._isRowNumberAreaClick(event);
     const isHeaderClick = this._isHeaderAreaClick(event);
+    const isGroupHeaderClick = this._isGroupHeaderAreaClick(event);
     let redrawNeeded = false;
+    // clicking the filter icon of an open filter menu closes it
+    const filterMenuColumn = this.editingManager.getFilterMenuColumn();
 
     // --- Deactivate Editor/Dropdown (no redraw trigger here) ---
     if (this.editingManager.isEditorActive()) {
@@ -307,9 +411,36 @@ export class EventManager {
         ? this.interactionManager.clearCopiedCell()
         : false;
       redrawNeeded = rowsChanged || copyCleared;
+    } else if (isGroupHeaderClick) {
+      const column = this._getColumnFromEvent(event);
+      const span =
+        column !== null ? this.stateManager.getColumnGroupSpan(column) : null;
+      if (span && this._isColumnGroupToggleClick(event, span)) {
+        // lays out the columns again and redraws
+        this.interactionManager.toggleColumnGroup(span.group.key);
+      } else if (span) {
+        const selectionChanged =
+          this.interactionManager.selectColumnGroup(span);
+        const copyCleared = currentCopied
+          ? this.interactionManager.clearCopiedCell()
+          : false;
+        redrawNeeded = selectionChanged || copyCleared;
+      }
     } else if (isHeaderClick) {
       const column = this._getColumnFromEvent(event);
-      if (column !== null) {
+      const icon =
+        column !== null ? this._getHeaderIconFromEvent(event, column) : null;
+      if (column !== null && icon === "sort") {
+        if (this.interactionManager.toggleColumnSort(column)) {
+          // heights moved with their rows, only the visible range changes
+          this.dimensionCalculator.calculateVisibleRange();
+          redrawNeeded = true;
+        }
+      } else if (column !== null && icon === "filter") {
+        if (filterMenuColumn !== column) {
+          this.editingManager.showFilterMenu(column);
+        }
+      } else if (column !== null) {
         const columnsChanged =
           this.interactionManager.handleHeaderClick(column);
         const copyCleared = currentCopied
@@ -352,7 +483,7 @@ export class EventManager {
     if (isCellClick) {
       try {
         this.options.onCellContextMenu?.({
-          rowIndex: coords?.row!,
+          rowIndex: this.stateManager.getDataRowIndex(coords?.row!),
           colKey: this.stateManager.getColumnKey(coords?.col!),
           rowData: this.stateManager.getRowData(coords?.row!) || {},
           x: event.clientX,
@@ -369,14 +500,18 @@ export class EventManager {
       );
       try {
         this.options.onRowNumberContextMenu?.({
-          rowIndex: coords?.row!,
+          rowIndex: this.stateManager.getDataRowIndex(coords?.row!),
           x: event.clientX,
           y: event.clientY,
         });
       } catch (error: unknown) {
         log("warn", this.options.verbose, error);
       }
-    } else if (isHeaderClick && coords?.col !== null) {
+    } else if (
+      isHeaderClick &&
+      !this._isGroupHeaderAreaClick(event) &&
+      coords?.col !== null
+    ) {
       redrawNeeded = this.interactionManager.handleHeaderClick(coords?.col!);
       try {
         this.options.onColumnHeaderContextMenu?.({
@@ -403,6 +538,21 @@ export class EventManager {
       return;
     }
 
+    // Pressing a header (but not its icons or group) picks up the column
+    const headerCol =
+      this._isHeaderAreaClick(event) && !this._isGroupHeaderAreaClick(event)
+        ? this._getColumnFromEvent(event)
+        : null;
+    if (
+      headerCol !== null &&
+      !this._getHeaderIconFromEvent(event, headerCol)
+    ) {
+      this.interactionManager.startColumnDrag(headerCol, event);
+      event.preventDefault();
+      this.domManager.focusContainer();
+      return;
+    }
+
     const activeCell = this.stateManager.getActiveCell();
     let hasActiveCell = false;
     if (activeCell && activeCell.row !== null && activeCell.col !== null) {
@@ -415,6 +565,13 @@ export class EventManager {
       }
     }
 
+    // Pressing the number of a selected row picks up the selected rows
+    if (this.interactionManager.checkRowDrag(event)) {
+      event.preventDefault();
+      this.domManager.focusContainer();
+      return;
+    }
+
     // If not resizing or dragging fill handle, check for cell click to start selection drag
     const coords = this._getCoordsFromEvent(event);
     if (coords && coords.row !== null && coords.col !== null) {
@@ -458,6 +615,10 @@ export class EventManager {
     } else if (this.stateManager.isDraggingFillHandle()) {
       this.interactionManager.handleFillHandleMouseMove(event); // Handles redraw
       this._ignoreNextClick = true;
+    } else if (this.stateManager.isDraggingRows()) {
+      this.interactionManager.handleRowDragMouseMove(event); // Handles redraw
+    } else if (this.stateManager.isDraggingColumn()) {
+      this.interactionManager.handleColumnDragMouseMove(event); // Handles redraw
     } else if (this.stateManager.getIsDraggingSelection()) {
       // Update selection range based on mouse position
       const coords = this._getCoordsFromEvent(event);
@@ -509,6 +670,17 @@ export class EventManager {
     if (this.stateManager.isDraggingFillHandle()) {
       this.interactionManager.endFillHandleDrag(); // Handles redraw internally
     }
+    if (this.stateManager.isDraggingRows()) {
+      // a press without moving is a normal row number click
+      if (this.interactionManager.endRowDrag()) {
+        shouldIgnoreNextClick = true;
+      }
+    }
+    if (this.stateManager.isDraggingColumn()) {
+      if (this.interactionManager.endColumnDrag()) {
+        shouldIgnoreNextClick = true;
+      }
+    }
 
     // Always update cursor style on mouse up
     this.interactionManager.updateCursorStyle(event);
@@ -524,13 +696,25 @@ export class EventManager {
     if (
       this.stateManager.isDraggingFillHandle() ||
       this.stateManager.isResizing() ||
-      this.stateManager.getIsDraggingSelection()
+      this.stateManager.getIsDraggingSelection() ||
+      this.stateManager.isDraggingRows() ||
+      this.stateManager.isDraggingColumn()
     )
       return;
 
     // check mouse coordinates and focus on the container
     if (!this.container.contains(event.target as Node)) {
       log("log", this.options.verbose, "Outside click on container");
+      // e.g. a popup the custom editor placed in the body
+      if (this.editingManager.isCustomEditorElement(event.target as Node)) {
+        return;
+      }
+      if (
+        keyboardTarget === this &&
+        !this.domManager.isSpreadsheetElement(event.target as Node)
+      ) {
+        keyboardTarget = null;
+      }
       let needsRedraw = false;
       if (
         this.editingManager.isEditorActive(true) ||
@@ -541,6 +725,7 @@ export class EventManager {
           return;
         }
         this.editingManager.deactivateEditor(true);
+        this.editingManager.hideDropdown(); // the filter menu has no editor
       } else {
         // Clear all selection state if clicking outside
         const cellCleared = this.stateManager.setActiveCell(null);
@@ -560,6 +745,21 @@ export class EventManager {
     }
   }
 
+  /**
+   * True if the document keyboard events are for this spreadsheet: it was
+   * focused or clicked last and the focus is not in another element of the
+   * page, like an unrelated input
+   */
+  private _isKeyboardTarget(): boolean {
+    if (keyboardTarget !== this) return false;
+    const activeElement = document.activeElement;
+    return (
+      !activeElement ||
+      activeElement === document.body ||
+      this.domManager.isSpreadsheetElement(activeElement)
+    );
+  }
+
   private _handleDocumentKeyDown(event: KeyboardEvent): void {
     if (
       event.repeat &&
@@ -573,6 +773,7 @@ export class EventManager {
     if (event.ctrlKey || event.metaKey) {
       this.isCtrl = true;
     }
+    if (!this._isKeyboardTarget()) return;
 
     // --- Actions only when editor is INACTIVE ---
     if (
@@ -619,6 +820,10 @@ export class EventManager {
     let focusBoundsAfterResize: CellBounds | null = null;
     // reset the flag from key down event
     if (this.redrawOnKeyUp) this.redrawOnKeyUp = false;
+    if (!this._isKeyboardTarget()) {
+      if (redrawNeeded) this.renderer.draw();
+      return;
+    }
 
     // --- Actions only when editor is INACTIVE ---
     if (
@@ -636,12 +841,38 @@ export class EventManager {
       if (redrawNeeded) this.renderer.draw();
       return;
     }
+    if (isCtrl && event.key === "x") {
+      redrawNeeded = this.interactionManager.cut();
+      event.preventDefault();
+      if (redrawNeeded) this.renderer.draw();
+      return;
+    }
     if (isCtrl && event.key === "v") {
       redrawNeeded = this.interactionManager.paste();
       event.preventDefault();
       if (redrawNeeded) this.redraw(true); // content changed, so we need to resize rows
       return;
     }
+    if (isCtrl && (event.key.toLowerCase() === "z" || event.key === "y")) {
+      const isRedo = event.key === "y" || event.shiftKey;
+      const changed = isRedo
+        ? this.interactionManager.redo()
+        : this.interactionManager.undo();
+      event.preventDefault();
+      // structural changes trigger a resize, which redraws on its own
+      if (changed) this.redraw(true); // content changed, so we need to resize rows
+      return;
+    }
+    if (
+      event.altKey &&
+      (event.key === "ArrowUp" || event.key === "ArrowDown")
+    ) {
+      // Alt+ArrowUp/ArrowDown inserts rows above/below the selection,
+      // the resize triggered by the insert redraws
+      this.interactionManager.insertRowsAtSelection(event.key === "ArrowDown");
+      event.preventDefault();
+      return;
+    }
     const activeCell = this.stateManager.getActiveCell();
     const isActiveCellValid =
       activeCell && activeCell.row !== null && activeCell.col !== null;
@@ -665,6 +896,7 @@ export class EventManager {
         const colKey = this.stateManager.getColumnKey(col!);
         if (!isCellDisabled) {
           const currentValue = this.stateManager.getCellData(row!, col!);
+          this.stateManager.beginTransaction();
           try {
             const cleared = this.stateManager.updateCell(
               row!,
@@ -689,6 +921,8 @@ export class EventManager {
                 ]);
               }
             }
+          } finally {
+            this.stateManager.commitTransaction();
           }
         }
         event.preventDefault();
@@ -715,7 +949,9 @@ export class EventManager {
               );
           }
           const columnToDelete = this.stateManager.getColumnKey(selectedColumn);
-          this.stateManager.removeColumn(selectedColumn);
+          this.stateManager.transaction(() =>
+            this.stateManager.removeColumn(selectedColumn)
+          );
           redrawNeeded = true;
           resizeNeeded = true;
 
@@ -798,6 +1034,44 @@ export class EventManager {
     }
   }
 
+  // --- Native Copy/Cut Event Handling ---
+  private _handleCopy(event: ClipboardEvent): void {
+    this._writeClipboard(event, false);
+  }
+
+  private _handleCut(event: ClipboardEvent): void {
+    this._writeClipboard(event, true);
+  }
+
+  /** Copies or cuts the selected cells and writes them to the system clipboard */
+  private _writeClipboard(event: ClipboardEvent, isCut: boolean): void {
+    // Let the editor and other inputs handle their own text selection
+    if (this.editingManager.isEditorActive()) return;
+    if (
+      event.target instanceof HTMLInputElement ||
+      event.target instanceof HTMLTextAreaElement
+    ) {
+      return;
+    }
+    if (!event.clipboardData) return;
+
+    // keep the internal typed copy for in-grid pastes
+    const changed = isCut
+      ? this.interactionManager.cut()
+      : this.interactionManager.copy();
+    if (this.interactionManager.writeCopiedToClipboard(event.clipboardData)) {
+      event.preventDefault();
+      log(
+        "log",
+        this.options.verbose,
+        `${isCut ? "Cut" : "Copied"} cells to the system clipboard.`
+      );
+    }
+    if (changed) {
+      this.renderer.draw();
+    }
+  }
+
   // --- Native Paste Event Handling ---
   private _handlePaste(event: ClipboardEvent): void {
     // Only handle paste if editor isn't active and clipboard data exists
@@ -807,6 +1081,16 @@ export class EventManager {
     const textData = event.clipboardData.getData("text/plain");
     if (!textData) return;
 
+    // Something else was copied since the grid's last copy, so the clipboard
+    // content wins over the stale internal copy
+    if (
+      this.stateManager.isCopyActive() &&
+      !this.interactionManager.isOwnClipboardText(textData)
+    ) {
+      this.interactionManager.clearCopiedCell();
+      this.renderer.draw();
+    }
+
     if (this.interactionManager.paste()) {
       event.preventDefault();
       this.redraw(true); // content changed, so we need to resize rows
@@ -820,7 +1104,7 @@ export class EventManager {
     // Check for selected column paste - this takes precedence
     if (selectedColumn !== null) {
       // For external paste to column, we'll just use the first value from the clipboard
-      const value = textData.split(/\r\n|\n|\r/)[0].split("\t")[0];
+      const value = parseClipboardText(textData)[0]?.[0];
       if (value) {
         log(
           "log",
@@ -830,9 +1114,8 @@ export class EventManager {
         event.preventDefault();
 
         // Convert and paste using the interaction manager
-        const changed = this.interactionManager.pasteToColumnExternal(
-          selectedColumn,
-          value
+        const changed = this.stateManager.transaction(() =>
+          this.interactionManager.pasteToColumnExternal(selectedColumn, value)
         );
         if (changed) {
           this.redraw(true); // content changed, so we need to resize rows
@@ -858,37 +1141,42 @@ export class EventManager {
 
     let changed = false;
 
-    // Attempt to parse text data into a 2D array (assuming TSV)
-    const parsedRows = textData
-      .split(/\r\n|\n|\r/)
-      .map((row) => row.split("\t"));
+    // Parse text data into a 2D array (TSV, with quoted multi-line cells)
+    const parsedRows = parseClipboardText(textData);
+    if (parsedRows.length === 0) return;
     const isSingleValuePaste =
       parsedRows.length === 1 && parsedRows[0].length === 1;
 
-    if (targetRange) {
-      // Paste to Range (repeat pattern of parsed data)
-      changed = this.interactionManager.pasteRangeToRangeExternal(
-        targetRange,
-        parsedRows
-      );
-    } else if (
-      targetCell &&
-      targetCell.row !== null &&
-      targetCell.col !== null
-    ) {
-      if (isSingleValuePaste) {
-        // Paste single text value to the active cell (check type)
-        changed = this.interactionManager.pasteSingleValueExternal(
-          targetCell,
-          parsedRows[0][0]
-        );
-      } else {
-        // Paste multi-line/tabbed text starting from the active cell
-        changed = this.interactionManager.pasteRangeFromTopLeftExternal(
-          targetCell,
+    // the whole paste is undone as one step
+    this.stateManager.beginTransaction();
+    try {
+      if (targetRange) {
+        // Paste to Range (repeat pattern of parsed data)
+        changed = this.interactionManager.pasteRangeToRangeExternal(
+          targetRange,
           parsedRows
         );
+      } else if (
+        targetCell &&
+        targetCell.row !== null &&
+        targetCell.col !== null
+      ) {
+        if (isSingleValuePaste) {
+          // Paste single text value to the active cell (check type)
+          changed = this.interactionManager.pasteSingleValueExternal(
+            targetCell,
+            parsedRows[0][0]
+          );
+        } else {
+          // Paste multi-line/tabbed text starting from the active cell
+          changed = this.interactionManager.pasteRangeFromTopLeftExternal(
+            targetCell,
+            parsedRows
+          );
+        }
       }
+    } finally {
+      this.stateManager.commitTransaction();
     }
 
     if (changed) {
@@ -902,12 +1190,10 @@ export class EventManager {
     const rect = this.domManager.getCanvasBoundingClientRect();
     const canvasX = event.clientX - rect.left;
     const canvasY = event.clientY - rect.top;
-    const {
-      headerHeight,
-      rowNumberWidth,
-      defaultRowHeight,
-      defaultColumnWidth,
-    } = this.options;
+    const { headerHeight, rowNumberWidth } = this.options;
+    // Frozen columns and rows don't scroll
+    const scrollLeft = this.dimensionCalculator.getScrollLeftAt(canvasX);
+    const scrollTop = this.dimensionCalculator.getScrollTopAt(canvasY);
 
     // Convert canvas coordinates to content coordinates
     // For fixed headers/row numbers, we need to account for their position
@@ -917,59 +1203,33 @@ export class EventManager {
     // If we're in the content area (not in header or row numbers),
     // adjust for scroll position
     if (canvasX >= rowNumberWidth && canvasY >= headerHeight) {
-      contentX = canvasX - rowNumberWidth + this.stateManager.getScrollLeft();
-      contentY = canvasY - headerHeight + this.stateManager.getScrollTop();
+      contentX = canvasX - rowNumberWidth + scrollLeft;
+      contentY = canvasY - headerHeight + scrollTop;
     } else if (canvasY < headerHeight && canvasX >= rowNumberWidth) {
       // In header area - horizontal scroll applies, no vertical scroll
-      contentX = canvasX - rowNumberWidth + this.stateManager.getScrollLeft();
+      contentX = canvasX - rowNumberWidth + scrollLeft;
       contentY = canvasY;
     } else if (canvasX < rowNumberWidth && canvasY >= headerHeight) {
       // In row number area - vertical scroll applies, no horizontal scroll
       contentX = canvasX;
-      contentY = canvasY - headerHeight + this.stateManager.getScrollTop();
+      contentY = canvasY - headerHeight + scrollTop;
     } else {
       // In corner box
       contentX = canvasX;
       contentY = canvasY;
     }
 
-    // Get dimensions directly from state/calculator as needed
-    const dataLength = this.stateManager.dataLength; // More efficient than getData()
-    const columns = this.stateManager.getColumns();
-    const rowHeights = this.stateManager.getRowHeights();
-    const columnWidths = this.stateManager.getColumnWidths();
-
     let targetRow: number | null = null;
     let targetCol: number | null = null;
 
-    // Find Row
+    // Find Row, contentY is already adjusted for the header
     if (canvasY >= headerHeight) {
-      // In data area or row number area
-      let currentY = 0; // Start from 0 since we already adjusted for header in contentY
-      for (let i = 0; i < dataLength; i++) {
-        const rowHeight = rowHeights.get(i) || defaultRowHeight;
-        if (contentY >= currentY && contentY < currentY + rowHeight) {
-          targetRow = i;
-          break;
-        }
-        currentY += rowHeight;
-        if (currentY > contentY) break;
-      }
+      targetRow = this.dimensionCalculator.getRowAt(contentY);
     }
 
-    // Find Column
+    // Find Column, contentX is already adjusted for the row numbers
     if (canvasX >= rowNumberWidth) {
-      // In data area or header area
-      let currentX = 0; // Start from 0 since we already adjusted for row numbers in contentX
-      for (let j = 0; j < columns.length; j++) {
-        const colWidth = columnWidths.get(j) || defaultColumnWidth;
-        if (contentX >= currentX && contentX < currentX + colWidth) {
-          targetCol = j;
-          break;
-        }
-        currentX += colWidth;
-        if (currentX > contentX) break;
-      }
+      targetCol = this.dimensionCalculator.getColumnAt(contentX);
     }
 
     // Handle special cases
@@ -985,30 +1245,41 @@ export class EventManager {
   private _getColumnFromEvent(event: MouseEvent): number | null {
     const rect = this.domManager.getCanvasBoundingClientRect();
     const canvasX = event.clientX - rect.left;
-    const { rowNumberWidth, defaultColumnWidth } = this.options;
+    const { rowNumberWidth } = this.options;
 
     // Check if we're in the header/data area horizontally
     if (canvasX < rowNumberWidth) {
       return null; // In row number area, not a column
     }
 
-    // Adjust for row number width and horizontal scroll
-    const contentX =
-      canvasX - rowNumberWidth + this.stateManager.getScrollLeft();
-    const columns = this.stateManager.getColumns();
-    const columnWidths = this.stateManager.getColumnWidths();
-
-    // Find the column at the given position
-    let currentX = 0;
-    for (let j = 0; j < columns.length; j++) {
-      const colWidth = columnWidths.get(j) || defaultColumnWidth;
-      if (contentX >= currentX && contentX < currentX + colWidth) {
-        return j;
+    // Adjust for row number width and horizontal scroll (none over frozen columns)
+    const scrollLeft = this.dimensionCalculator.getScrollLeftAt(canvasX);
+    const contentX = canvasX - rowNumberWidth + scrollLeft;
+    return this.dimensionCalculator.getColumnAt(contentX);
+  }
+
+  private _getHeaderIconFromEvent(
+    event: MouseEvent,
+    colIndex: number
+  ): HeaderIcon | null {
+    const rect = this.domManager.getCanvasBoundingClientRect();
+    const canvasX = event.clientX - rect.left;
+    const canvasY = event.clientY - rect.top;
+    const scrollLeft = this.dimensionCalculator.getScrollLeftAt(canvasX);
+    const contentX = canvasX + scrollLeft;
+    for (const icon of this.renderer.getHeaderIcons(colIndex)) {
+      const bounds = this.renderer.getHeaderIconBounds(colIndex, icon);
+      if (
+        bounds &&
+        contentX >= bounds.x &&
+        contentX <= bounds.x + bounds.width &&
+        canvasY >= bounds.y &&
+        canvasY <= bounds.y + bounds.height
+      ) {
+        return icon;
       }
-      currentX += colWidth;
     }
-
-    return null; // No column found
+    return null;
   }
 
   private _isRowNumberAreaClick(event: MouseEvent): boolean {
@@ -1023,6 +1294,31 @@ export class EventManager {
     return canvasY < this.options.headerHeight;
   }
 
+  private _isGroupHeaderAreaClick(event: MouseEvent): boolean {
+    const rect = this.domManager.getCanvasBoundingClientRect();
+    const canvasY = event.clientY - rect.top;
+    return canvasY < this.dimensionCalculator.getGroupHeaderHeight();
+  }
+
+  private _isColumnGroupToggleClick(
+    event: MouseEvent,
+    span: ColumnGroupSpan
+  ): boolean {
+    const bounds = this.renderer.getColumnGroupToggleBounds(span);
+    if (!bounds) return false;
+    const rect = this.domManager.getCanvasBoundingClientRect();
+    const canvasX = event.clientX - rect.left;
+    const canvasY = event.clientY - rect.top;
+    const contentX =
+      canvasX + this.dimensionCalculator.getScrollLeftAt(canvasX);
+    return (
+      contentX >= bounds.x &&
+      contentX <= bounds.x + bounds.width &&
+      canvasY >= bounds.y &&
+      canvasY <= bounds.y + bounds.height
+    );
+  }
+
   // --- Touch Event Handlers ---
   private _handleTouchStart(event: TouchEvent): void {
     // Prevent default to avoid page scrolling
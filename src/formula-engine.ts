@@ -0,0 +1,480 @@
+import { DataRow, SpreadsheetSchema } from "./types";
+import { FORMULA_ERROR_FIELD_PREFIX } from "./config";
+import { isBlankValue } from "./utils";
+
+type FormulaNode =
+  | { type: "literal"; value: any }
+  | { type: "column"; colKey: string }
+  | { type: "unary"; operator: string; operand: FormulaNode }
+  | {
+      type: "binary";
+      operator: string;
+      left: FormulaNode;
+      right: FormulaNode;
+    }
+  | { type: "call"; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "identifier"; value: string }
+  | { type: "column"; value: string } // [column key]
+  | { type: "operator"; value: string };
+
+export type FormulaResult = { value: any } | { error: string };
+
+/** Error codes are displayed in the cell, like spreadsheet applications do */
+class FormulaError extends Error {
+  constructor(code: string) {
+    super(code);
+  }
+}
+
+const OPERATORS = [
+  "<=",
+  ">=",
+  "<>",
+  "!=",
+  "==",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "^",
+  "&",
+  "=",
+  "<",
+  ">",
+  "(",
+  ")",
+  ",",
+];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(
+        expression.slice(i)
+      );
+      if (!match) throw new FormulaError("#VALUE!");
+      tokens.push({ type: "number", value: Number(match[0]) });
+      i += match[0].length;
+    } else if (char === '"' || char === "'") {
+      // a doubled quote inside a string is an escaped quote
+      let value = "";
+      i++;
+      while (i < expression.length) {
+        if (expression[i] === char) {
+          if (expression[i + 1] !== char) break;
+          i++;
+        }
+        value += expression[i++];
+      }
+      if (i >= expression.length) throw new FormulaError("#VALUE!");
+      tokens.push({ type: "string", value });
+      i++;
+    } else if (char === "[") {
+      const end = expression.indexOf("]", i);
+      if (end < 0) throw new FormulaError("#REF!");
+      tokens.push({ type: "column", value: expression.slice(i + 1, end) });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0] });
+      i += match[0].length;
+    } else {
+      const operator = OPERATORS.find((op) => expression.startsWith(op, i));
+      if (!operator) throw new FormulaError("#VALUE!");
+      tokens.push({ type: "operator", value: operator });
+      i += operator.length;
+    }
+  }
+  return tokens;
+}
+
+/** Recursive descent parser, from the lowest to the highest precedence */
+function parse(expression: string): FormulaNode {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peekOperator = (...operators: string[]): string | null => {
+    const token = tokens[position];
+    return token?.type === "operator" && operators.includes(token.value)
+      ? token.value
+      : null;
+  };
+  const expect = (operator: string) => {
+    if (!peekOperator(operator)) throw new FormulaError("#VALUE!");
+    position++;
+  };
+  const binary = (
+    operators: string[],
+    next: () => FormulaNode
+  ): (() => FormulaNode) => {
+    return () => {
+      let left = next();
+      let operator: string | null;
+      while ((operator = peekOperator(...operators))) {
+        position++;
+        left = { type: "binary", operator, left, right: next() };
+      }
+      return left;
+    };
+  };
+
+  const primary = (): FormulaNode => {
+    const token = tokens[position++];
+    if (!token) throw new FormulaError("#VALUE!");
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "column":
+        return { type: "column", colKey: token.value };
+      case "identifier": {
+        if (peekOperator("(")) {
+          position++;
+          const args: FormulaNode[] = [];
+          if (!peekOperator(")")) {
+            args.push(comparison());
+            while (peekOperator(",")) {
+              position++;
+              args.push(comparison());
+            }
+          }
+          expect(")");
+          return { type: "call", name: token.value.toUpperCase(), args };
+        }
+        const upper = token.value.toUpperCase();
+        if (upper === "TRUE" || upper === "FALSE") {
+          return { type: "literal", value: upper === "TRUE" };
+        }
+        return { type: "column", colKey: token.value };
+      }
+      default:
+        if (token.value === "(") {
+          const node = comparison();
+          expect(")");
+          return node;
+        }
+        throw new FormulaError("#VALUE!");
+    }
+  };
+  const unary = (): FormulaNode => {
+    const operator = peekOperator("-", "+");
+    if (operator) {
+      position++;
+      return { type: "unary", operator, operand: unary() };
+    }
+    return power();
+  };
+  const power = (): FormulaNode => {
+    const left = primary();
+    if (peekOperator("^")) {
+      position++;
+      return { type: "binary", operator: "^", left, right: unary() };
+    }
+    return left;
+  };
+  const multiplicative = binary(["*", "/", "%"], unary);
+  const additive = binary(["+", "-"], multiplicative);
+  const concatenation = binary(["&"], additive);
+  const comparison = binary(
+    ["=", "==", "<>", "!=", "<", ">", "<=", ">="],
+    concatenation
+  );
+
+  const node = comparison();
+  if (position < tokens.length) throw new FormulaError("#VALUE!");
+  return node;
+}
+
+function collectColumns(node: FormulaNode, columns: Set<string>): void {
+  switch (node.type) {
+    case "column":
+      columns.add(node.colKey);
+      break;
+    case "unary":
+      collectColumns(node.operand, columns);
+      break;
+    case "binary":
+      collectColumns(node.left, columns);
+      collectColumns(node.right, columns);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectColumns(arg, columns));
+      break;
+  }
+}
+
+function toNumber(value: any): number {
+  if (isBlankValue(value)) return 0;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const number = Number(value);
+  if (isNaN(number)) throw new FormulaError("#VALUE!");
+  return number;
+}
+
+function toText(value: any): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  return String(value);
+}
+
+function toBoolean(value: any): boolean {
+  if (typeof value === "string") {
+    if (value.toUpperCase() === "TRUE") return true;
+    if (value.toUpperCase() === "FALSE" || value === "") return false;
+  }
+  return toNumber(value) !== 0;
+}
+
+function compare(left: any, right: any): number {
+  if (isBlankValue(left) && isBlankValue(right)) return 0;
+  if (typeof left === "number" || typeof right === "number") {
+    const a = Number(isBlankValue(left) ? 0 : left);
+    const b = Number(isBlankValue(right) ? 0 : right);
+    if (!isNaN(a) && !isNaN(b)) return a - b;
+  }
+  return toText(left).localeCompare(toText(right), undefined, {
+    sensitivity: "accent",
+  });
+}
+
+/** Flattens multi-select values so SUM, MIN, etc. can take them */
+function flatten(values: any[]): any[] {
+  return values.flatMap((value) => (Array.isArray(value) ? value : [value]));
+}
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  ABS: (value) => Math.abs(toNumber(value)),
+  ROUND: (value, digits = 0) => {
+    const factor = Math.pow(10, toNumber(digits));
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  FLOOR: (value) => Math.floor(toNumber(value)),
+  CEILING: (value) => Math.ceil(toNumber(value)),
+  SUM: (...values) =>
+    flatten(values).reduce((sum, value) => sum + toNumber(value), 0),
+  MIN: (...values) => Math.min(...flatten(values).map(toNumber)),
+  MAX: (...values) => Math.max(...flatten(values).map(toNumber)),
+  AVERAGE: (...values) => {
+    const numbers = flatten(values).map(toNumber);
+    if (!numbers.length) throw new FormulaError("#DIV/0!");
+    return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+  },
+  CONCAT: (...values) => values.map(toText).join(""),
+  LEN: (value) => toText(value).length,
+  UPPER: (value) => toText(value).toUpperCase(),
+  LOWER: (value) => toText(value).toLowerCase(),
+  TRIM: (value) => toText(value).trim(),
+  LEFT: (value, count = 1) => toText(value).slice(0, toNumber(count)),
+  RIGHT: (value, count = 1) => {
+    const text = toText(value);
+    return text.slice(Math.max(0, text.length - toNumber(count)));
+  },
+  MID: (value, start, count) => {
+    const from = toNumber(start) - 1;
+    return toText(value).slice(from, from + toNumber(count));
+  },
+  SUBSTITUTE: (value, search, replacement) =>
+    toText(value).split(toText(search)).join(toText(replacement)),
+  AND: (...values) => values.every(toBoolean),
+  OR: (...values) => values.some(toBoolean),
+  NOT: (value) => !toBoolean(value),
+  ISBLANK: (value) => isBlankValue(value),
+};
+
+function evaluateNode(
+  node: FormulaNode,
+  resolve: (colKey: string) => any
+): any {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "column":
+      return resolve(node.colKey);
+    case "unary": {
+      const value = toNumber(evaluateNode(node.operand, resolve));
+      return node.operator === "-" ? -value : value;
+    }
+    case "binary": {
+      const left = evaluateNode(node.left, resolve);
+      const right = evaluateNode(node.right, resolve);
+      switch (node.operator) {
+        case "+":
+          return toNumber(left) + toNumber(right);
+        case "-":
+          return toNumber(left) - toNumber(right);
+        case "*":
+          return toNumber(left) * toNumber(right);
+        case "/":
+        case "%": {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new FormulaError("#DIV/0!");
+          return node.operator === "/"
+            ? toNumber(left) / divisor
+            : toNumber(left) % divisor;
+        }
+        case "^":
+          return Math.pow(toNumber(left), toNumber(right));
+        case "&":
+          return toText(left) + toText(right);
+        case "=":
+        case "==":
+          return compare(left, right) === 0;
+        case "<>":
+        case "!=":
+          return compare(left, right) !== 0;
+        case "<":
+          return compare(left, right) < 0;
+        case ">":
+          return compare(left, right) > 0;
+        case "<=":
+          return compare(left, right) <= 0;
+        case ">=":
+          return compare(left, right) >= 0;
+      }
+      throw new FormulaError("#VALUE!");
+    }
+    case "call": {
+      // only the taken branch is evaluated
+      if (node.name === "IF") {
+        const [condition, whenTrue, whenFalse] = node.args;
+        if (!condition) throw new FormulaError("#VALUE!");
+        const branch = toBoolean(evaluateNode(condition, resolve))
+          ? whenTrue
+          : whenFalse;
+        return branch ? evaluateNode(branch, resolve) : false;
+      }
+      if (node.name === "IFERROR") {
+        const [value, fallback] = node.args;
+        try {
+          return evaluateNode(value, resolve);
+        } catch (error) {
+          if (!(error instanceof FormulaError)) throw error;
+          return fallback ? evaluateNode(fallback, resolve) : "";
+        }
+      }
+      const fn = FUNCTIONS[node.name];
+      if (!fn) throw new FormulaError("#NAME?");
+      return fn(...node.args.map((arg) => evaluateNode(arg, resolve)));
+    }
+  }
+}
+
+/**
+ * Compiles the `formula` of the columns and keeps a dependency graph between
+ * columns, so a change only recalculates the formula columns that depend on it.
+ * Formulas are evaluated per row and can only reference columns of the same row.
+ */
+export class FormulaEngine {
+  private formulas: Map<string, FormulaNode> = new Map();
+  private errors: Map<string, string> = new Map(); // parse errors, unknown columns and cycles
+  private dependents: Map<string, Set<string>> = new Map(); // column -> formula columns using it
+  private order: string[] = []; // formula columns, every column after its dependencies
+  private formulaColumns: Set<string> = new Set();
+
+  public setSchema(schema: SpreadsheetSchema): void {
+    this.formulas = new Map();
+    this.errors = new Map();
+    this.dependents = new Map();
+    const references = new Map<string, Set<string>>();
+    for (const colKey of Object.keys(schema)) {
+      const formula = schema[colKey].formula;
+      if (formula === undefined) continue;
+      const columns = new Set<string>();
+      try {
+        const node = parse(formula.replace(/^\s*=/, ""));
+        collectColumns(node, columns);
+        this.formulas.set(colKey, node);
+      } catch (error) {
+        this.errors.set(
+          colKey,
+          error instanceof FormulaError ? error.message : "#VALUE!"
+        );
+      }
+      references.set(colKey, columns);
+      columns.forEach((column) => {
+        if (!schema[column]) this.errors.set(colKey, "#REF!");
+        if (!this.dependents.has(column)) {
+          this.dependents.set(column, new Set());
+        }
+        this.dependents.get(column)!.add(colKey);
+      });
+    }
+
+    // depth-first topological sort, columns on a cycle get an error
+    this.order = [];
+    const state = new Map<string, "visiting" | "done">();
+    const visit = (colKey: string): boolean => {
+      if (state.get(colKey) === "done") return true;
+      if (state.get(colKey) === "visiting") return false;
+      state.set(colKey, "visiting");
+      let acyclic = true;
+      references.get(colKey)!.forEach((column) => {
+        if (references.has(column) && !visit(column)) acyclic = false;
+      });
+      if (!acyclic) this.errors.set(colKey, "#CYCLE!");
+      state.set(colKey, "done");
+      this.order.push(colKey);
+      return acyclic;
+    };
+    references.forEach((_, colKey) => visit(colKey));
+    this.formulaColumns = new Set(this.order);
+  }
+
+  public hasFormulas(): boolean {
+    return this.order.length > 0;
+  }
+
+  public isFormulaColumn(colKey: string): boolean {
+    return this.formulaColumns.has(colKey);
+  }
+
+  /** Formula columns affected by changes to the given columns, in evaluation order */
+  public getDependentColumns(colKeys?: string[]): string[] {
+    if (!colKeys) return [...this.order];
+    const affected = new Set<string>();
+    const queue = [...colKeys];
+    while (queue.length) {
+      this.dependents.get(queue.pop()!)?.forEach((colKey) => {
+        if (affected.has(colKey)) return;
+        affected.add(colKey);
+        queue.push(colKey);
+      });
+    }
+    return this.order.filter((colKey) => affected.has(colKey));
+  }
+
+  public evaluate(colKey: string, row: DataRow): FormulaResult {
+    const error = this.errors.get(colKey);
+    if (error) return { error };
+    const node = this.formulas.get(colKey);
+    if (!node) return { value: null };
+    // errors of the formula columns it uses are passed on
+    const resolve = (column: string) => {
+      const columnError =
+        this.isFormulaColumn(column) &&
+        row[`${FORMULA_ERROR_FIELD_PREFIX}${column}`];
+      if (columnError) throw new FormulaError(columnError);
+      return row[column] ?? null;
+    };
+    try {
+      const value = evaluateNode(node, resolve);
+      if (typeof value === "number" && !isFinite(value)) {
+        return { error: "#NUM!" };
+      }
+      return { value };
+    } catch (error) {
+      if (error instanceof FormulaError) return { error: error.message };
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { CellUpdateEvent, ColumnSchema, DataRow } from "./types";
+
+export type HistoryEntry =
+  | {
+      type: "cell";
+      rowIndex: number;
+      colKey: string;
+      oldValue: any; // undefined means the field did not exist
+      newValue: any; // undefined means the field was removed
+    }
+  | {
+      type: "deleteRows";
+      // sorted ascending by rowIndex, indices are before the deletion
+      rows: {
+        rowIndex: number;
+        data: DataRow;
+        height?: number;
+        userResized?: boolean;
+      }[];
+    }
+  | {
+      type: "insertRows";
+      rowIndex: number; // data index of the first inserted row
+      rows: DataRow[];
+    }
+  | {
+      type: "moveRows";
+      rows: number[]; // data indices before the move, ascending
+      rowIndex: number; // data index of the first moved row after the move
+    }
+  | {
+      type: "columnOrder";
+      oldOrder: string[];
+      newOrder: string[];
+    }
+  | {
+      type: "removeColumn";
+      orderIndex: number; // position in the column order, including hidden columns
+      colKey: string;
+      schema: ColumnSchema;
+      width?: number;
+      cachedOptions?: Map<string | number, string>;
+      // row index -> all fields belonging to the column (value, error:, loading:, etc.)
+      fields: Map<number, Record<string, any>>;
+    };
+
+export type HistoryTransaction = HistoryEntry[];
+
+/** Changes caused by applying (undoing or redoing) a transaction */
+export interface HistoryApplyResult {
+  cellUpdates: CellUpdateEvent[];
+  deletedRows: DataRow[];
+  insertedRows: { rowIndex: number; rows: DataRow[] }[];
+  movedRows: { from: number[]; to: number[] }[];
+  deletedColumns: string[];
+  columnOrder: string[] | null; // the column order, if it changed
+  structural: boolean; // rows or columns were added or removed
+  focusCell: { rowIndex: number; colKey: string } | null;
+}
+
+/**
+ * Keeps undo/redo stacks of transactions.
+ * Entries are only recorded while a transaction is open, so changes made
+ * through the public data API (setData, updateCell) are not part of the history.
+ */
+export class HistoryManager {
+  private undoStack: HistoryTransaction[] = [];
+  private redoStack: HistoryTransaction[] = [];
+  private currentTransaction: HistoryTransaction | null = null;
+  private transactionDepth = 0;
+  private maxSize: number;
+
+  constructor(maxSize: number) {
+    this.maxSize = maxSize;
+  }
+
+  /** Opens a transaction, nested calls are merged into the outermost one */
+  public begin(): void {
+    if (this.transactionDepth === 0) {
+      this.currentTransaction = [];
+    }
+    this.transactionDepth++;
+  }
+
+  /** Closes the transaction, returns true if a non-empty transaction was pushed */
+  public commit(): boolean {
+    if (this.transactionDepth === 0) return false;
+    this.transactionDepth--;
+    if (this.transactionDepth > 0) return false;
+    const transaction = this.currentTransaction;
+    this.currentTransaction = null;
+    if (!transaction?.length || this.maxSize <= 0) return false;
+    this.undoStack.push(transaction);
+    if (this.undoStack.length > this.maxSize) {
+      this.undoStack.shift();
+    }
+    this.redoStack = []; // a new change invalidates the redo history
+    return true;
+  }
+
+  /** Runs the callback inside a transaction and returns its result */
+  public transaction<T>(callback: () => T): T {
+    this.begin();
+    try {
+      return callback();
+    } finally {
+      this.commit();
+    }
+  }
+
+  public get isRecording(): boolean {
+    return this.currentTransaction !== null;
+  }
+
+  public record(entry: HistoryEntry): void {
+    if (!this.currentTransaction) return;
+    this.currentTransaction.push(entry);
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Moves the latest transaction to the redo stack and returns it */
+  public takeUndo(): HistoryTransaction | null {
+    const transaction = this.undoStack.pop();
+    if (!transaction) return null;
+    this.redoStack.push(transaction);
+    return transaction;
+  }
+
+  /** Moves the latest undone transaction back to the undo stack and returns it */
+  public takeRedo(): HistoryTransaction | null {
+    const transaction = this.redoStack.pop();
+    if (!transaction) return null;
+    this.undoStack.push(transaction);
+    return transaction;
+  }
+
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
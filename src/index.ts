@@ -5,12 +5,25 @@ import {
   ColumnSchema,
   ValidationError,
   CellUpdateInput,
+  CellStyle,
   VisibleCell,
+  SortDirection,
+  SortState,
+  ColumnFilter,
+  ColumnGroup,
+  ConditionalFormatRule,
+  CsvExportOptions,
+  CsvImportOptions,
+  ImportResult,
+  XlsxExportOptions,
+  XlsxImportOptions,
 } from "./types";
 import {
   DEFAULT_OPTIONS,
   ERROR_FIELD_PREFIX,
   LOADING_FIELD_PREFIX,
+  ROW_STYLE_FIELD,
+  STYLE_FIELD_PREFIX,
 } from "./config";
 import { DomManager } from "./dom-manager";
 import { DimensionCalculator } from "./dimension-calculator";
@@ -19,7 +32,18 @@ import { EventManager } from "./event-manager";
 import { EditingManager } from "./editing-manager";
 import { InteractionManager } from "./interaction-manager";
 import { StateManager } from "./state-manager";
-import { chunkArray, log } from "./utils";
+import {
+  chunkArray,
+  formatCellValue,
+  formatValue,
+  isBlankValue,
+  log,
+  iterateDelimitedText,
+  toDelimitedText,
+  toZonedWallClock,
+  validateInput,
+} from "./utils";
+import { readXlsx, writeXlsx, XLSX_MIME_TYPE, XlsxCellValue } from "./xlsx";
 export type * from "./types";
 
 export class Spreadsheet {
@@ -32,20 +56,25 @@ export class Spreadsheet {
   private eventManager: EventManager;
   private editingManager: EditingManager;
   private interactionManager: InteractionManager;
+  private columnHeaderHeight: number; // headerHeight without the group band
 
   constructor(
-    containerId: string,
+    containerOrId: string | HTMLElement,
     schema: SpreadsheetSchema,
     data: DataRow[] = [],
     options: SpreadsheetOptions = {}
   ) {
-    const container = document.getElementById(containerId);
+    const container =
+      typeof containerOrId === "string"
+        ? document.getElementById(containerOrId)
+        : containerOrId;
     if (!container) {
-      throw new Error(`Container element with ID "${containerId}" not found.`);
+      throw new Error(`Container element with ID "${containerOrId}" not found.`);
     }
     this.container = container;
 
     this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.columnHeaderHeight = this.options.headerHeight;
 
     // Instantiate managers
     this.stateManager = new StateManager(schema, this.options);
@@ -74,6 +103,11 @@ export class Spreadsheet {
         // bring any target bounds into view, which will trigger a scroll
         if (event.detail)
           this.interactionManager.bringBoundsIntoView(event.detail);
+      } else if (event.type === "layout") {
+        this.onDataUpdate(
+          this.stateManager.getScrollTop(),
+          this.stateManager.getScrollLeft()
+        );
       }
     });
     this.editingManager = new EditingManager(
@@ -82,6 +116,7 @@ export class Spreadsheet {
       this.stateManager,
       this.domManager,
       this.renderer,
+      this.dimensionCalculator,
       this.interactionManager
     );
     this.eventManager = new EventManager(
@@ -96,6 +131,7 @@ export class Spreadsheet {
     );
 
     this.stateManager.setInitialData(data);
+    this._updateHeaderHeight();
     this.dimensionCalculator.calculateTotalSize();
 
     // Auto-resize row heights if enabled (during initialization)
@@ -156,6 +192,7 @@ export class Spreadsheet {
 
   private onDataUpdate(top: number = 0, left: number = 0) {
     // Need to re-initialize sizes, recalculate dimensions, and redraw
+    this.dimensionCalculator.invalidateRowHeights();
     this.reCalculate();
     this.interactionManager.moveScroll(left, top, true);
     this.draw();
@@ -237,7 +274,7 @@ export class Spreadsheet {
   }
 
   public get rowCount(): number {
-    return this.stateManager.dataLength;
+    return this.stateManager.totalDataLength;
   }
 
   public setData(newData: DataRow[]): void {
@@ -253,7 +290,37 @@ export class Spreadsheet {
   public addRow(): number {
     const newRowIndex = this.stateManager.addRow();
     this.onDataUpdate(this.container.scrollHeight, 0);
-    return newRowIndex;
+    return this.stateManager.getDataRowIndex(newRowIndex);
+  }
+  /**
+   * Inserts rows before the data row index, filled with the schema defaults
+   * and the optional values. Can be undone like the keyboard insert.
+   * @returns The number of inserted rows
+   */
+  public insertRows(index: number, count: number, rows?: DataRow[]): number {
+    this.editingManager.deactivateEditor(false);
+    const values = Array.from(
+      { length: Math.max(0, count) },
+      (_, i) => rows?.[i] ?? {}
+    );
+    const insertedCount = this.interactionManager.insertRows(index, values);
+    if (insertedCount) {
+      this.onDataUpdate(
+        this.stateManager.getScrollTop(),
+        this.stateManager.getScrollLeft()
+      );
+    }
+    return insertedCount;
+  }
+  /** Inserts rows above the selected rows or the active cell, e.g. from a context menu */
+  public insertRowsAbove(): boolean {
+    this.editingManager.deactivateEditor(false);
+    return this.interactionManager.insertRowsAtSelection(false);
+  }
+  /** Inserts rows below the selected rows or the active cell, e.g. from a context menu */
+  public insertRowsBelow(): boolean {
+    this.editingManager.deactivateEditor(false);
+    return this.interactionManager.insertRowsAtSelection(true);
   }
   public addColumn(fieldName: string, colSchema: ColumnSchema): number {
     const newColIndex = this.stateManager.addColumn(fieldName, colSchema);
@@ -272,15 +339,22 @@ export class Spreadsheet {
     if (colIndex < 0 || colIndex >= columns.length) {
       throw new Error(`Column index ${colIndex} is out of bounds`);
     }
-    this.stateManager.removeColumn(colIndex);
+    // usually called from onColumnDelete, so it can be undone like the Delete key
+    this.stateManager.transaction(() =>
+      this.stateManager.removeColumn(colIndex)
+    );
     this.onDataUpdate(0, this.container.scrollWidth);
   }
+  /** Removes a column by key, including hidden and collapsed columns */
   public removeColumnByKey(colKey: string): void {
-    const colIndex = this.stateManager.getColumns().indexOf(colKey);
-    if (colIndex < 0) {
+    // the column order includes the columns that are not displayed
+    if (!this.stateManager.getColumnOrder().includes(colKey)) {
       throw new Error(`Column key ${colKey} not found`);
     }
-    this.removeColumnByIndex(colIndex);
+    this.stateManager.transaction(() =>
+      this.stateManager.removeColumnByKey(colKey)
+    );
+    this.onDataUpdate(0, this.container.scrollWidth);
   }
 
   public updateCell({
@@ -292,16 +366,17 @@ export class Spreadsheet {
   }: CellUpdateInput): void {
     let redrawNeeded = false;
     const colIndex = this.stateManager.getColumns().indexOf(colKey);
-    if (flashError && colIndex >= 0) {
+    const viewRowIndex = this.stateManager.getViewRowIndex(rowIndex);
+    if (flashError && colIndex >= 0 && viewRowIndex >= 0) {
       this.renderer.setTemporaryErrors([
-        { row: rowIndex, col: colIndex, error: flashError },
+        { row: viewRowIndex, col: colIndex, error: flashError },
       ]);
     }
     try {
       if (remove) {
-        this.stateManager.removeCellValue(rowIndex, colKey);
+        this.stateManager.removeDataCellValue(rowIndex, colKey);
       } else {
-        const updated = this.stateManager.updateCell(
+        const updated = this.stateManager.updateDataCell(
           rowIndex,
           colKey,
           value,
@@ -312,7 +387,7 @@ export class Spreadsheet {
       redrawNeeded = true;
     } catch (error: unknown) {
       if (error instanceof ValidationError) {
-        this.stateManager.updateCell(
+        this.stateManager.updateDataCell(
           rowIndex,
           `${ERROR_FIELD_PREFIX}${colKey}`,
           error.message
@@ -324,6 +399,7 @@ export class Spreadsheet {
     }
     if (redrawNeeded) {
       if (this.options.autoResizeRowHeight) {
+        this.dimensionCalculator.invalidateRowHeights([rowIndex]);
         this.reCalculate();
       }
       this.draw();
@@ -342,18 +418,19 @@ export class Spreadsheet {
     const columns = this.stateManager.getColumns();
     for (const { rowIndex, colKey, value, flashError, remove } of inputs) {
       const colIndex = columns.indexOf(colKey);
+      const viewRowIndex = this.stateManager.getViewRowIndex(rowIndex);
       try {
-        if (flashError && colIndex >= 0) {
+        if (flashError && colIndex >= 0 && viewRowIndex >= 0) {
           cellsToFlashError.push({
-            row: rowIndex,
+            row: viewRowIndex,
             col: colIndex,
             error: flashError,
           });
         }
         if (remove) {
-          this.stateManager.removeCellValue(rowIndex, colKey);
+          this.stateManager.removeDataCellValue(rowIndex, colKey);
         } else {
-          const updated = this.stateManager.updateCell(
+          const updated = this.stateManager.updateDataCell(
             rowIndex,
             colKey,
             value,
@@ -365,7 +442,7 @@ export class Spreadsheet {
         redrawNeeded = true;
       } catch (error: unknown) {
         if (error instanceof ValidationError) {
-          this.stateManager.updateCell(
+          this.stateManager.updateDataCell(
             rowIndex,
             `${ERROR_FIELD_PREFIX}${colKey}`,
             error.message
@@ -381,6 +458,7 @@ export class Spreadsheet {
     }
     if (redrawNeeded) {
       if (this.options.autoResizeRowHeight) {
+        this.dimensionCalculator.invalidateRowHeights(updatedRows);
         this.reCalculate();
       }
       this.draw();
@@ -392,13 +470,13 @@ export class Spreadsheet {
     const cell = this.stateManager.getActiveCell();
     if (!cell || !cell.row || !cell.col) return null;
     return {
-      row: cell.row!,
+      row: this.stateManager.getDataRowIndex(cell.row!),
       colKey: this.stateManager.getColumnKey(cell.col!),
     };
   }
 
   public getRow(rowIndex: number): DataRow | null {
-    const row = this.stateManager.getRowData(rowIndex);
+    const row = this.stateManager.getDataRow(rowIndex);
     if (!row) return null;
     return JSON.parse(JSON.stringify(row)); // Deep copy
   }
@@ -419,6 +497,116 @@ export class Spreadsheet {
     this.redraw();
   }
 
+  /** Column keys in display order including hidden columns, e.g. to persist the order */
+  public getColumnOrder(): string[] {
+    return this.stateManager.getColumnOrder().slice();
+  }
+  /**
+   * Changes the display order of the columns. Unknown keys are ignored, and
+   * columns missing from the order keep their relative order at the end.
+   */
+  public setColumnOrder(order: string[]): void {
+    this.editingManager.deactivateEditor(false);
+    if (this.interactionManager.setColumnOrder(order)) {
+      this.draw();
+    }
+  }
+
+  /** Hides a column without removing its data, like `hidden: true` in its schema */
+  public hideColumn(colKey: string): void {
+    this._setColumnHidden(colKey, true);
+  }
+  public showColumn(colKey: string): void {
+    this._setColumnHidden(colKey, false);
+  }
+  public getHiddenColumns(): string[] {
+    const schema = this.stateManager.getSchema();
+    return this.stateManager
+      .getColumnOrder()
+      .filter((colKey) => schema[colKey].hidden);
+  }
+  private _setColumnHidden(colKey: string, hidden: boolean): void {
+    this.editingManager.deactivateEditor(false);
+    if (this.stateManager.setColumnHidden(colKey, hidden)) {
+      // the copied source range refers to the old columns
+      this.interactionManager.clearCopiedCell();
+      this.onDataUpdate(
+        this.stateManager.getScrollTop(),
+        this.stateManager.getScrollLeft()
+      );
+    }
+  }
+
+  /** Sets the `style:<colKey>` field of a row, null removes the style */
+  public setCellStyle(
+    rowIndex: number,
+    colKey: string,
+    style: CellStyle | null
+  ): void {
+    this.updateCell({
+      rowIndex,
+      colKey: `${STYLE_FIELD_PREFIX}${colKey}`,
+      value: style,
+      remove: !style,
+    });
+  }
+  /** Sets the `rowStyle:` field of a row, null removes the style */
+  public setRowStyle(rowIndex: number, style: CellStyle | null): void {
+    this.updateCell({
+      rowIndex,
+      colKey: ROW_STYLE_FIELD,
+      value: style,
+      remove: !style,
+    });
+  }
+
+  public getConditionalFormats(): ConditionalFormatRule[] {
+    return this.stateManager.getConditionalFormats().slice();
+  }
+  /** Replaces the conditional format rules and redraws the cells */
+  public setConditionalFormats(rules: ConditionalFormatRule[]): void {
+    this.stateManager.setConditionalFormats(rules);
+    this.draw();
+  }
+
+  public getColumnGroups(): ColumnGroup[] {
+    return this.stateManager
+      .getColumnGroups()
+      .map((group) => ({ ...group, columns: [...group.columns] }));
+  }
+  /** Replaces the column groups, an empty list removes the group band */
+  public setColumnGroups(groups: ColumnGroup[]): void {
+    this.editingManager.deactivateEditor(false);
+    this.stateManager.setColumnGroups(groups);
+    this.interactionManager.clearCopiedCell();
+    this._updateHeaderHeight();
+    this.onDataUpdate(
+      this.stateManager.getScrollTop(),
+      this.stateManager.getScrollLeft()
+    );
+  }
+  /** Shows only the summary column of a group */
+  public collapseColumnGroup(groupKey: string): void {
+    this._setColumnGroupCollapsed(groupKey, true);
+  }
+  public expandColumnGroup(groupKey: string): void {
+    this._setColumnGroupCollapsed(groupKey, false);
+  }
+  private _setColumnGroupCollapsed(groupKey: string, collapsed: boolean): void {
+    this.editingManager.deactivateEditor(false);
+    if (this.interactionManager.setColumnGroupCollapsed(groupKey, collapsed)) {
+      this.onDataUpdate(
+        this.stateManager.getScrollTop(),
+        this.stateManager.getScrollLeft()
+      );
+    }
+  }
+  /** The group band is drawn above the column labels, in the header */
+  private _updateHeaderHeight(): void {
+    this.options.headerHeight =
+      this.columnHeaderHeight + this.dimensionCalculator.getGroupHeaderHeight();
+  }
+
   public focus(): void {
     this.domManager.focusContainer(false);
   }
@@ -432,31 +620,400 @@ export class Spreadsheet {
       this.editingManager.deactivateEditor(false, true, true);
     }
     const colIndex = this.stateManager.getColumns().indexOf(colKey);
-    if (colIndex >= 0) {
+    const viewRowIndex = this.stateManager.getViewRowIndex(rowIndex);
+    if (colIndex >= 0 && viewRowIndex >= 0) {
       // in case the selection is gone, redraw will be done by updateCell
       this.stateManager.setActiveCell({
-        row: rowIndex,
+        row: viewRowIndex,
         col: colIndex,
       });
     }
-    this.updateCell({ rowIndex, colKey, value });
+    this.stateManager.transaction(() =>
+      this.updateCell({ rowIndex, colKey, value })
+    );
   }
   public deactivateCustomEditor(focusCell?: VisibleCell): void {
     this.focus();
     this.editingManager.deactivateEditor(false, true, true);
     if (!focusCell) return;
     const colIndex = this.stateManager.getColumns().indexOf(focusCell.colKey);
-    if (colIndex < 0) return;
+    const viewRowIndex = this.stateManager.getViewRowIndex(focusCell.rowIndex);
+    if (colIndex < 0 || viewRowIndex < 0) return;
     this.stateManager.setActiveCell({
-      row: focusCell.rowIndex,
+      row: viewRowIndex,
       col: colIndex,
     });
     this.draw();
   }
 
+  // --- Sorting ---
+  /** Sorts the rows by a column, the data order and row indices are not changed */
+  public sortBy(colKey: string, direction: SortDirection = "asc"): void {
+    if (this.interactionManager.sortByColumn(colKey, direction)) {
+      this.draw();
+    }
+  }
+  /** Restores the original data order */
+  public clearSort(): void {
+    if (this.interactionManager.sortByColumn("", null)) {
+      this.draw();
+    }
+  }
+  public getSortState(): SortState | null {
+    const sortState = this.stateManager.getSortState();
+    return sortState ? { ...sortState } : null;
+  }
+
+  // --- Filtering ---
+  /** Hides the rows that don't match the filter, null removes the filter of the column */
+  public setFilter(colKey: string, filter: ColumnFilter | null): void {
+    if (this.interactionManager.setColumnFilter(colKey, filter)) {
+      this.onDataUpdate(0, this.stateManager.getScrollLeft());
+    }
+  }
+  public clearFilters(): void {
+    if (this.interactionManager.clearFilters()) {
+      this.onDataUpdate(0, this.stateManager.getScrollLeft());
+    }
+  }
+  public getFilters(): Record<string, ColumnFilter> {
+    return JSON.parse(
+      JSON.stringify(Object.fromEntries(this.stateManager.getFilters()))
+    );
+  }
+
+  // --- CSV ---
+  /**
+   * Exports all rows in data order as CSV text with a header row. The rows are
+   * processed in chunks of 1000 so large data doesn't block the UI.
+   */
+  public async exportCSV(options?: CsvExportOptions): Promise<string> {
+    const delimiter = options?.delimiter ?? ",";
+    const schema = this.stateManager.getSchema();
+    const allColumns = options?.visibleColumnsOnly === false;
+    // all columns includes the hidden ones
+    const columns = (
+      allColumns
+        ? this.stateManager.getColumnOrder()
+        : this.stateManager.getColumns()
+    ).slice();
+    const chunks = chunkArray(this.stateManager.getData(true), 1000);
+    if (allColumns) {
+      // append the data fields that have no column, skipping internal fields
+      const otherKeys = new Set<string>();
+      for (const chunk of chunks) {
+        for (const row of chunk) {
+          for (const key of Object.keys(row)) {
+            if (!schema[key] && !key.includes(":")) otherKeys.add(key);
+          }
+        }
+      }
+      columns.push(...otherKeys);
+    }
+    const header = columns.map((colKey) =>
+      options?.keyHeaders ? colKey : schema[colKey]?.label || colKey
+    );
+    const lines = [toDelimitedText([header], delimiter)];
+    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
+      // yield to the UI between chunks
+      if (chunkIndex > 0) await new Promise((r) => setTimeout(r, 0));
+      const rows = chunks[chunkIndex].map((row) =>
+        columns.map((colKey) =>
+          this._formatCsvValue(row[colKey], colKey, options)
+        )
+      );
+      lines.push(toDelimitedText(rows, delimiter, "\r\n"));
+    }
+    return lines.join("\r\n");
+  }
+
+  private _formatCsvValue(
+    value: any,
+    colKey: string,
+    options?: CsvExportOptions
+  ): string {
+    const schemaCol = this.stateManager.getSchema()[colKey];
+    const cachedOptions =
+      this.stateManager.cachedDropdownOptionsByColumn.get(colKey);
+    if (!options?.raw) {
+      return formatCellValue(value, schemaCol, cachedOptions, this.options);
+    }
+    if (isBlankValue(value)) return "";
+    if (schemaCol?.type === "select" && (options?.selectLabels ?? true)) {
+      return formatValue(value, schemaCol.type, cachedOptions) || String(value);
+    }
+    return Array.isArray(value) ? value.join(", ") : String(value);
+  }
+
+  /**
+   * Imports CSV text with a header row, replacing the data unless `append` is
+   * set. Headers are matched to the column keys or labels and the values are
+   * converted to the column types like pasted values. Cells that fail the
+   * conversion or validation are left blank with the error in their error
+   * field. The rows are parsed and processed in chunks of 1000 so large files
+   * don't block the UI. Appended rows are inserted like insertRows, so they
+   * can be undone.
+   */
+  public async importCSV(
+    text: string,
+    options?: CsvImportOptions
+  ): Promise<ImportResult> {
+    // strip the byte order mark written by some applications
+    const records = iterateDelimitedText(
+      text.replace(/^\uFEFF/, ""),
+      options?.delimiter ?? ","
+    );
+    const header = records.next();
+    const headers = header.done ? [] : header.value;
+    return this._importRecords(headers, records, options?.append, "CSV");
+  }
+
+  /** Imports the header row and records of a file, see importCSV */
+  private async _importRecords(
+    headers: XlsxCellValue[],
+    records: Iterable<XlsxCellValue[]>,
+    append: boolean | undefined,
+    format: string
+  ): Promise<ImportResult> {
+    const schema = this.stateManager.getSchema();
+    const columns = this.stateManager.getColumnOrder(); // hidden columns too
+    const unmappedHeaders: string[] = [];
+    const headerKeys = headers.map((header) => {
+      // exported headers of required columns end with " *"
+      const name = String(header ?? "")
+        .trim()
+        .replace(/\s*\*$/, "");
+      const colKey =
+        columns.find((key) => key === name) ??
+        columns.find(
+          (key) =>
+            schema[key].label?.trim().toLowerCase() === name.toLowerCase()
+        );
+      if (!colKey) unmappedHeaders.push(String(header ?? ""));
+      // formula columns are computed, their values are not imported
+      return colKey && !schema[colKey].formula ? colKey : null;
+    });
+
+    // appended values must also be unique among the existing rows, which are
+    // only read
+    const existingRows = append ? this.stateManager.getData(true) : [];
+    const newRows: DataRow[] = [];
+    let errorCount = 0;
+    let recordCount = 0;
+    for (const record of records) {
+      // yield to the UI between chunks of 1000 records
+      if (recordCount > 0 && recordCount % 1000 === 0) {
+        await new Promise((r) => setTimeout(r, 0));
+      }
+      recordCount++;
+      if (record.every((cell) => this._isBlankImportValue(cell))) continue;
+      const row: DataRow = {};
+      headerKeys.forEach((colKey, index) => {
+        if (!colKey) return;
+        const error = this._importValue(
+          record[index] ?? null,
+          colKey,
+          row,
+          existingRows,
+          newRows
+        );
+        if (error) {
+          // blank, not the default value of an inserted row
+          row[colKey] = null;
+          row[`${ERROR_FIELD_PREFIX}${colKey}`] = error;
+          errorCount++;
+        }
+      });
+      newRows.push(row);
+    }
+
+    if (append) {
+      // keeps the undo history and the row heights
+      this.insertRows(existingRows.length, newRows.length, newRows);
+    } else {
+      this.setData(newRows);
+    }
+    const rowCount = newRows.length;
+    log(
+      "log",
+      this.options.verbose,
+      `Imported ${rowCount} rows from ${format} with ${errorCount} errors.`
+    );
+    return { rowCount, errorCount, unmappedHeaders };
+  }
+
+  private _isBlankImportValue(cell: XlsxCellValue): boolean {
+    return typeof cell === "string" ? cell.trim() === "" : isBlankValue(cell);
+  }
+
+  /** Converts and validates an imported cell into the row, returns the error if any */
+  private _importValue(
+    cell: XlsxCellValue,
+    colKey: string,
+    row: DataRow,
+    existingRows: DataRow[],
+    newRows: DataRow[]
+  ): string | null {
+    const schemaCol = this.stateManager.getSchema()[colKey];
+    const cachedOptions =
+      this.stateManager.cachedDropdownOptionsByColumn.get(colKey);
+    let value: any = null;
+    if (!this._isBlankImportValue(cell)) {
+      // multi-select cells are exported as comma separated option names
+      const input =
+        schemaCol.type === "select" &&
+        schemaCol.multiple &&
+        typeof cell === "string"
+          ? cell.split(",").map((item) => item.trim())
+          : cell;
+      value = this.interactionManager._convertValueForTargetType(
+        input,
+        colKey,
+        schemaCol
+      );
+      if (
+        value === null ||
+        (Array.isArray(value) &&
+          Array.isArray(input) &&
+          value.length !== input.length)
+      ) {
+        return `Invalid value "${cell}" for column "${
+          schemaCol.label || colKey
+        }".`;
+      }
+    }
+    // the row isn't part of either list yet, so no row is skipped
+    const rowLists = existingRows.length ? [newRows, existingRows] : [newRows];
+    for (const rows of rowLists) {
+      const validationResult = validateInput(
+        value,
+        schemaCol,
+        colKey,
+        cachedOptions,
+        this.options.verbose,
+        rows,
+        -1
+      );
+      if ("error" in validationResult) return validationResult.error;
+    }
+    row[colKey] = value;
+    return null;
+  }
+
+  // --- XLSX ---
+  /**
+   * Exports all rows in data order as an .xlsx workbook with a header row of
+   * column labels, required columns are marked with "*". Numbers, dates,
+   * datetimes (in the display time zone), times and booleans are written as
+   * Excel values, select values as their option names and the column widths
+   * are kept.
+   */
+  public async exportXLSX(options?: XlsxExportOptions): Promise<Blob> {
+    const schema = this.stateManager.getSchema();
+    const columns = this.stateManager.getColumns();
+    const xlsxColumns = columns.map((colKey, colIndex) => ({
+      header: schema[colKey]?.label || colKey,
+      width: this.stateManager.getColumnWidth(colIndex),
+      schema: schema[colKey],
+    }));
+    const rows: any[][] = [];
+    const chunks = chunkArray(this.stateManager.getData(true), 1000);
+    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
+      // yield to the UI between chunks
+      if (chunkIndex > 0) await new Promise((r) => setTimeout(r, 0));
+      for (const row of chunks[chunkIndex]) {
+        rows.push(
+          columns.map((colKey) => {
+            const value = row[colKey];
+            if (schema[colKey]?.type === "datetime" && !isBlankValue(value)) {
+              // Excel has no time zones, write the displayed wall clock time
+              const date = new Date(value);
+              if (isNaN(date.getTime())) return value;
+              return toZonedWallClock(date, this.options.timeZone);
+            }
+            if (schema[colKey]?.type !== "select" || isBlankValue(value)) {
+              return value;
+            }
+            const cachedOptions =
+              this.stateManager.cachedDropdownOptionsByColumn.get(colKey);
+            return formatValue(value, "select", cachedOptions) || value;
+          })
+        );
+      }
+    }
+    const data = writeXlsx(xlsxColumns, rows, options?.sheetName);
+    return new Blob([data as Uint8Array<ArrayBuffer>], {
+      type: XLSX_MIME_TYPE,
+    });
+  }
+
+  /**
+   * Imports the first sheet of an .xlsx workbook, the first row is the header
+   * row. Works like importCSV: values are converted to the column types and
+   * cells that fail the conversion or validation get an error field.
+   */
+  public async importXLSX(
+    file: Blob | ArrayBuffer | Uint8Array,
+    options?: XlsxImportOptions
+  ): Promise<ImportResult> {
+    const data =
+      file instanceof Uint8Array
+        ? file
+        : new Uint8Array(
+            file instanceof ArrayBuffer ? file : await file.arrayBuffer()
+          );
+    const [headers = [], ...records] = await readXlsx(data);
+    return this._importRecords(headers, records, options?.append, "XLSX");
+  }
+
+  // --- History ---
+  /** Reverts the last user change, returns false if there was nothing to undo */
+  public undo(): boolean {
+    this.editingManager.deactivateEditor(false);
+    const changed = this.interactionManager.undo();
+    if (changed) this._redrawChangedRows();
+    return changed;
+  }
+  /** Re-applies the last undone change, returns false if there was nothing to redo */
+  public redo(): boolean {
+    this.editingManager.deactivateEditor(false);
+    const changed = this.interactionManager.redo();
+    if (changed) this._redrawChangedRows();
+    return changed;
+  }
+  public canUndo(): boolean {
+    return this.stateManager.canUndo();
+  }
+  public canRedo(): boolean {
+    return this.stateManager.canRedo();
+  }
+
+  // --- Lifecycle ---
+  /**
+   * Removes all listeners, cancels the pending timers and removes the created
+   * elements. The instance can't be used afterwards.
+   */
+  public destroy(): void {
+    this.eventManager.destroy();
+    this.editingManager.destroy();
+    this.interactionManager.destroy();
+    this.renderer.destroy();
+    this.domManager.destroy();
+    log("log", this.options.verbose, "Spreadsheet destroyed");
+  }
+
+  /** Redraws after cell changes, only the changed rows are measured again */
+  private _redrawChangedRows(): void {
+    if (this.options.autoResizeRowHeight) {
+      this.reCalculate();
+    }
+    this.draw();
+  }
+
   // --- Helper to expose redrawing ---
   public redraw(): void {
     if (this.options.autoResizeRowHeight) {
+      this.dimensionCalculator.invalidateRowHeights();
       this.reCalculate();
     }
     this.draw();
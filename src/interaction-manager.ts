@@ -5,15 +5,31 @@ import {
   ColumnSchema,
   CellUpdateEvent,
   CellBounds,
+  ColumnGroupSpan,
+  SortDirection,
+  ColumnFilter,
+  DataRow,
 } from "./types";
 import { StateManager } from "./state-manager";
 import { Renderer } from "./renderer";
 import { DimensionCalculator } from "./dimension-calculator";
-import { log, validateInput } from "./utils";
+import {
+  formatCellValue,
+  isBlankValue,
+  log,
+  parseDateValue,
+  parseDateTimeValue,
+  parseTimeValue,
+  toClipboardHtml,
+  toClipboardText,
+  validateInput,
+} from "./utils";
 import { DomManager } from "./dom-manager";
 import { EditingManager } from "./editing-manager"; // Needed for moving active cell
 import { ERROR_FIELD_PREFIX } from "./config";
 
+const DRAG_THRESHOLD = 4; // px the mouse moves before dragged rows or columns are picked up
+
 export class InteractionManager {
   private options: RequiredSpreadsheetOptions;
   private stateManager: StateManager;
@@ -22,6 +38,8 @@ export class InteractionManager {
   private domManager: DomManager;
   private editingManager!: EditingManager; // Use definite assignment assertion
   private lastPasteHandledAt: Date | null = null; // used to prevent multiple pastes in a row
+  private lastClipboardText: string | null = null; // text last written to the system clipboard
+  private pendingCellUpdates: CellUpdateEvent[] | null = null; // collects updates into one notification
   private ignoreNextScrollTimeout: number | null = null;
   private _customEventHandler: ((event: CustomEvent) => void) | null = null;
 
@@ -46,9 +64,18 @@ export class InteractionManager {
     this._customEventHandler = customEventHandler;
   }
 
-  // optionally scroll a bounds into view
+  /** Cancels the pending timeouts and drops the custom event handler */
+  public destroy(): void {
+    if (this.ignoreNextScrollTimeout) {
+      clearTimeout(this.ignoreNextScrollTimeout);
+      this.ignoreNextScrollTimeout = null;
+    }
+    this._customEventHandler = null;
+  }
+
+  // "resize" optionally scrolls a bounds into view, "layout" keeps the scroll position
   public triggerCustomEvent(
-    eventName: "resize",
+    eventName: "resize" | "layout",
     focusBounds?: CellBounds | null
   ): void {
     this._customEventHandler?.call(
@@ -135,25 +162,35 @@ export class InteractionManager {
     const boundsWidth = bounds.width;
     const boundsHeight = bounds.height;
 
+    // Frozen columns and rows are always visible and cover the scrolling cells
+    const frozenRight =
+      rowNumberWidth + this.dimensionCalculator.getFrozenWidth();
+    const frozenBottom =
+      headerHeight + this.dimensionCalculator.getFrozenHeight();
+
     let newScrollLeft = scrollLeft;
     let newScrollTop = scrollTop;
 
-    // Check if the cell is visible horizontally, accounting for rowNumberWidth
-    if (boundsX < rowNumberWidth) {
-      // Cell is scrolled too far left
-      newScrollLeft += boundsX - rowNumberWidth;
-    } else if (boundsX + boundsWidth > canvasRect.width) {
-      // Cell extends beyond right edge
-      newScrollLeft += boundsX + boundsWidth - canvasRect.width;
+    // Check if the cell is visible horizontally, cells in frozen columns never scroll
+    if (bounds.x >= frozenRight) {
+      if (boundsX < frozenRight) {
+        // Cell is scrolled too far left
+        newScrollLeft += boundsX - frozenRight;
+      } else if (boundsX + boundsWidth > canvasRect.width) {
+        // Cell extends beyond right edge
+        newScrollLeft += boundsX + boundsWidth - canvasRect.width;
+      }
     }
 
-    // Check if the cell is visible vertically, accounting for headerHeight
-    if (boundsY < headerHeight) {
-      // Cell is scrolled too far up
-      newScrollTop += boundsY - headerHeight;
-    } else if (boundsY + boundsHeight > canvasRect.height) {
-      // Cell extends beyond bottom edge
-      newScrollTop += boundsY + boundsHeight - canvasRect.height;
+    // Check if the cell is visible vertically, cells in frozen rows never scroll
+    if (bounds.y >= frozenBottom) {
+      if (boundsY < frozenBottom) {
+        // Cell is scrolled too far up
+        newScrollTop += boundsY - frozenBottom;
+      } else if (boundsY + boundsHeight > canvasRect.height) {
+        // Cell extends beyond bottom edge
+        newScrollTop += boundsY + boundsHeight - canvasRect.height;
+      }
     }
     // Ensure we don't scroll to negative values
     newScrollLeft = Math.max(0, newScrollLeft);
@@ -315,57 +352,40 @@ export class InteractionManager {
     const rect = this.domManager.getCanvasBoundingClientRect();
     const canvasX = event.clientX - rect.left;
     const canvasY = event.clientY - rect.top;
-    const {
-      headerHeight,
-      rowNumberWidth,
-      resizeHandleSize,
-      defaultRowHeight,
-      defaultColumnWidth,
-    } = this.options;
+    const { headerHeight, rowNumberWidth } = this.options;
+    // Frozen columns and rows don't scroll
+    const scrollLeft = this.dimensionCalculator.getScrollLeftAt(canvasX);
+    const scrollTop = this.dimensionCalculator.getScrollTopAt(canvasY);
 
     // Convert to content coordinates based on where in the grid we are
     let contentX: number;
     let contentY: number;
 
-    // Check Column Resize Handles (in header area)
-    if (canvasY < headerHeight && canvasX >= rowNumberWidth) {
-      contentX = canvasX - rowNumberWidth + this.stateManager.getScrollLeft();
+    // Check Column Resize Handles (in header area, below the group band)
+    if (
+      canvasY < headerHeight &&
+      canvasY >= this.dimensionCalculator.getGroupHeaderHeight() &&
+      canvasX >= rowNumberWidth
+    ) {
+      contentX = canvasX - rowNumberWidth + scrollLeft;
 
       // For column resize, we need to check if we're near a column border
-      const columns = this.stateManager.getColumns();
-      const columnWidths = this.stateManager.getColumnWidths();
-
-      let currentX = 0; // Start at 0 since we've already adjusted for rowNumberWidth
-      for (let col = 0; col < columns.length; col++) {
-        const colWidth = columnWidths.get(col) || defaultColumnWidth;
-        const borderX = currentX + colWidth;
-        if (Math.abs(contentX - borderX) <= resizeHandleSize) {
-          this._startColumnResize(col, event.clientX);
-          return "column";
-        }
-        currentX += colWidth;
-        if (currentX > contentX + resizeHandleSize) break; // Optimization
+      const col = this.dimensionCalculator.getColumnBorderAt(contentX);
+      if (col !== null) {
+        this._startColumnResize(col, event.clientX);
+        return "column";
       }
     }
 
     // Check Row Resize Handles (in row number area)
     if (canvasX < rowNumberWidth && canvasY >= headerHeight) {
-      contentY = canvasY - headerHeight + this.stateManager.getScrollTop();
+      contentY = canvasY - headerHeight + scrollTop;
 
       // For row resize, we need to check if we're near a row border
-      const dataLength = this.stateManager.dataLength;
-      const rowHeights = this.stateManager.getRowHeights();
-
-      let currentY = 0; // Start at 0 since we've already adjusted for headerHeight
-      for (let row = 0; row < dataLength; row++) {
-        const rowHeight = rowHeights.get(row) || defaultRowHeight;
-        const borderY = currentY + rowHeight;
-        if (Math.abs(contentY - borderY) <= resizeHandleSize) {
-          this._startRowResize(row, event.clientY);
-          return "row";
-        }
-        currentY += rowHeight;
-        if (currentY > contentY + resizeHandleSize) break; // Optimization
+      const row = this.dimensionCalculator.getRowBorderAt(contentY);
+      if (row !== null) {
+        this._startRowResize(row, event.clientY);
+        return "row";
       }
     }
 
@@ -566,6 +586,8 @@ export class InteractionManager {
         this.options.autoResizeRowHeight &&
         columnResizeState.columnIndex !== null
       ) {
+        // the text of the other columns is still cached
+        this.dimensionCalculator.invalidateRowHeights();
         this.resizeRowsForColumn();
       } else {
         // If not auto-resizing rows, still need to update other dimensions
@@ -635,20 +657,19 @@ export class InteractionManager {
   public updateCursorStyle(event: MouseEvent): void {
     if (
       this.stateManager.isResizing() ||
-      this.stateManager.isDraggingFillHandle()
+      this.stateManager.isDraggingFillHandle() ||
+      this.stateManager.isDraggingRows() ||
+      this.stateManager.isDraggingColumn()
     )
       return; // Don't change cursor during active drag/resize
 
     const rect = this.domManager.getCanvasBoundingClientRect();
     const canvasX = event.clientX - rect.left;
     const canvasY = event.clientY - rect.top;
-    const {
-      headerHeight,
-      rowNumberWidth,
-      resizeHandleSize,
-      defaultRowHeight,
-      defaultColumnWidth,
-    } = this.options;
+    const { headerHeight, rowNumberWidth } = this.options;
+    // Frozen columns and rows don't scroll
+    const scrollLeft = this.dimensionCalculator.getScrollLeftAt(canvasX);
+    const scrollTop = this.dimensionCalculator.getScrollTopAt(canvasY);
 
     // Convert to content coordinates based on where the mouse is
     let contentX: number;
@@ -656,18 +677,18 @@ export class InteractionManager {
 
     // In header area (for column resize)
     if (canvasY < headerHeight && canvasX >= rowNumberWidth) {
-      contentX = canvasX - rowNumberWidth + this.stateManager.getScrollLeft();
+      contentX = canvasX - rowNumberWidth + scrollLeft;
       contentY = canvasY;
     }
     // In row number area (for row resize)
     else if (canvasX < rowNumberWidth && canvasY >= headerHeight) {
       contentX = canvasX;
-      contentY = canvasY - headerHeight + this.stateManager.getScrollTop();
+      contentY = canvasY - headerHeight + scrollTop;
     }
     // In content area (for fill handle)
     else if (canvasX >= rowNumberWidth && canvasY >= headerHeight) {
-      contentX = canvasX - rowNumberWidth + this.stateManager.getScrollLeft();
-      contentY = canvasY - headerHeight + this.stateManager.getScrollTop();
+      contentX = canvasX - rowNumberWidth + scrollLeft;
+      contentY = canvasY - headerHeight + scrollTop;
     }
     // In corner box or outside
     else {
@@ -675,44 +696,36 @@ export class InteractionManager {
       contentY = canvasY;
     }
 
-    const columns = this.stateManager.getColumns();
-    const dataLength = this.stateManager.dataLength;
-    const columnWidths = this.stateManager.getColumnWidths();
-    const rowHeights = this.stateManager.getRowHeights();
-
     let newCursor = "default";
 
     // Check Column Resize Handles
-    if (canvasY < headerHeight && canvasX >= rowNumberWidth) {
-      let currentX = 0; // Start at 0 since we already adjusted for rowNumberWidth in contentX
-      for (let col = 0; col < columns.length; col++) {
-        const colWidth = columnWidths.get(col) || defaultColumnWidth;
-        const borderX = currentX + colWidth;
-        if (Math.abs(contentX - borderX) <= resizeHandleSize) {
-          newCursor = "col-resize";
-          break;
-        }
-        currentX += colWidth;
-        if (currentX > contentX + resizeHandleSize) break; // Optimization
-      }
+    if (
+      canvasY < headerHeight &&
+      canvasY >= this.dimensionCalculator.getGroupHeaderHeight() &&
+      canvasX >= rowNumberWidth &&
+      this.dimensionCalculator.getColumnBorderAt(contentX) !== null
+    ) {
+      newCursor = "col-resize";
     }
 
     // Check Row Resize Handles
     if (
       newCursor === "default" &&
       canvasX < rowNumberWidth &&
-      canvasY >= headerHeight
+      canvasY >= headerHeight &&
+      this.dimensionCalculator.getRowBorderAt(contentY) !== null
     ) {
-      let currentY = 0; // Start at 0 since we already adjusted for headerHeight in contentY
-      for (let row = 0; row < dataLength; row++) {
-        const rowHeight = rowHeights.get(row) || defaultRowHeight;
-        const borderY = currentY + rowHeight;
-        if (Math.abs(contentY - borderY) <= resizeHandleSize) {
-          newCursor = "row-resize";
-          break;
-        }
-        currentY += rowHeight;
-        if (currentY > contentY + resizeHandleSize) break; // Optimization
+      newCursor = "row-resize";
+    }
+
+    // Check Row Drag, the numbers of selected rows can be dragged
+    if (newCursor === "default" && !this.stateManager.getSortState()) {
+      const rowIndex = this._getRowNumberFromEvent(event);
+      if (
+        rowIndex !== null &&
+        this.stateManager.getSelectedRows().has(rowIndex)
+      ) {
+        newCursor = "grab";
       }
     }
 
@@ -771,13 +784,16 @@ export class InteractionManager {
     // and scrolling position
     const canvasX = event.clientX - rect.left;
     const canvasY = event.clientY - rect.top;
+    // Frozen columns and rows don't scroll
+    const scrollLeft = this.dimensionCalculator.getScrollLeftAt(canvasX);
+    const scrollTop = this.dimensionCalculator.getScrollTopAt(canvasY);
 
     let contentX, contentY;
 
     // If in content area, adjust for header and row number and add scroll offset
     if (canvasX >= rowNumberWidth && canvasY >= headerHeight) {
-      contentX = canvasX - rowNumberWidth + this.stateManager.getScrollLeft();
-      contentY = canvasY - headerHeight + this.stateManager.getScrollTop();
+      contentX = canvasX - rowNumberWidth + scrollLeft;
+      contentY = canvasY - headerHeight + scrollTop;
     } else {
       // Not in content area, can't be on the fill handle
       return false;
@@ -823,7 +839,7 @@ export class InteractionManager {
     if (!startCell || startCell.row === null) return;
 
     const rect = this.domManager.getCanvasBoundingClientRect();
-    const { headerHeight, rowNumberWidth, defaultRowHeight } = this.options;
+    const { headerHeight, rowNumberWidth } = this.options;
     const canvasY = event.clientY - rect.top;
 
     // Only proceed if we're in the content area or row number area
@@ -839,23 +855,11 @@ export class InteractionManager {
     }
 
     // Adjust for header height and add scroll offset to get content Y coordinate
-    const contentY = canvasY - headerHeight + this.stateManager.getScrollTop();
+    const scrollTop = this.dimensionCalculator.getScrollTopAt(canvasY);
+    const contentY = canvasY - headerHeight + scrollTop;
 
-    const rowHeights = this.stateManager.getRowHeights();
     const dataLength = this.stateManager.dataLength;
-
-    let targetRow: number | null = null;
-    let currentY = 0; // Start at 0 since we've adjusted for header height
-
-    for (let i = 0; i < dataLength; i++) {
-      const rowHeight = rowHeights.get(i) || defaultRowHeight;
-      if (contentY >= currentY && contentY < currentY + rowHeight) {
-        targetRow = i;
-        break;
-      }
-      currentY += rowHeight;
-      if (currentY > contentY) break; // Optimization
-    }
+    const targetRow = this.dimensionCalculator.getRowAt(contentY);
 
     let newEndRow = this.stateManager.getDragEndRow();
 
@@ -889,7 +893,7 @@ export class InteractionManager {
       dragEndRow
     );
 
-    this._performFill();
+    this.stateManager.transaction(() => this._performFill());
 
     this.stateManager.setDragState({
       isDragging: false,
@@ -974,6 +978,11 @@ export class InteractionManager {
       }
     }
 
+    // the batch marks the filled rows to be measured, so it goes first
+    if (cellUpdates.length > 0) {
+      this._batchUpdateCellsAndNotify(cellUpdates, [sourceColumnKey], oldRows);
+    }
+
     if (changed) {
       if (autoResizeRowHeight) {
         this.resizeRowsForColumn();
@@ -981,10 +990,6 @@ export class InteractionManager {
         this.renderer.draw();
       }
     }
-
-    if (cellUpdates.length > 0) {
-      this._batchUpdateCellsAndNotify(cellUpdates, [sourceColumnKey], oldRows);
-    }
   }
 
   /**
@@ -1003,12 +1008,22 @@ export class InteractionManager {
     rows.forEach((rowIndex, index) => {
       this.stateManager.updateDisabledStatesForRow(rowIndex);
       updatedRows.push({
-        rowIndex,
+        rowIndex: this.stateManager.getDataRowIndex(rowIndex),
         columnKeys: updateColumns,
         data: this.stateManager.getRowData(rowIndex)!,
         oldData: oldRows?.[index],
       });
     });
+    // only the updated rows need to be measured again
+    this.dimensionCalculator.invalidateRowHeights(
+      updatedRows.map(({ rowIndex }) => rowIndex)
+    );
+
+    // Merge into the pending batch, it is notified once when collected
+    if (this.pendingCellUpdates) {
+      this._mergeCellUpdates(this.pendingCellUpdates, updatedRows);
+      return;
+    }
 
     // Notify about updates (once per batch)
     if (updatedRows.length > 0) {
@@ -1016,6 +1031,48 @@ export class InteractionManager {
     }
   }
 
+  /** Merges cell updates into a batch, combining updates of the same row */
+  private _mergeCellUpdates(
+    batch: CellUpdateEvent[],
+    updates: CellUpdateEvent[]
+  ): void {
+    for (const update of updates) {
+      const existing = batch.find((item) => item.rowIndex === update.rowIndex);
+      if (!existing) {
+        batch.push({ ...update, columnKeys: [...update.columnKeys] });
+        continue;
+      }
+      for (const colKey of update.columnKeys) {
+        if (!existing.columnKeys.includes(colKey)) {
+          existing.columnKeys.push(colKey);
+        }
+      }
+      existing.data = update.data;
+      // the first recorded old value of a cell is its value before the batch
+      if (update.oldData || existing.oldData) {
+        existing.oldData = { ...update.oldData, ...existing.oldData };
+      }
+    }
+  }
+
+  /**
+   * Runs the callback and notifies all cell updates made through
+   * _batchUpdateCellsAndNotify as a single onCellsUpdate batch.
+   */
+  private _collectCellUpdates<T>(callback: () => T): T {
+    if (this.pendingCellUpdates) return callback();
+    const batch: CellUpdateEvent[] = [];
+    this.pendingCellUpdates = batch;
+    try {
+      return callback();
+    } finally {
+      this.pendingCellUpdates = null;
+      if (batch.length > 0) {
+        this.stateManager.callOnCellsUpdate(batch);
+      }
+    }
+  }
+
   // --- Copy/Paste ---
   /** Copies the active cell or selected range. Returns true if copy state changed. */
   public copy(): boolean {
@@ -1086,6 +1143,80 @@ export class InteractionManager {
     return changed;
   }
 
+  /**
+   * Cuts the active cell or selected range: copies it and marks it to be
+   * cleared when pasted. Returns true if copy state changed.
+   */
+  public cut(): boolean {
+    const changed = this.copy();
+    const cutChanged = this.stateManager.setCutActive(
+      this.stateManager.isCopyActive()
+    );
+    if (cutChanged) {
+      log("log", this.options.verbose, "Copied cells marked as cut.");
+    }
+    return changed || cutChanged;
+  }
+
+  /** Returns the display text of a cell, as rendered in the grid */
+  private _getCellDisplayText(rowIndex: number, colIndex: number): string {
+    return formatCellValue(
+      this.stateManager.getCellData(rowIndex, colIndex),
+      this.stateManager.getSchemaForColumn(colIndex),
+      this.stateManager.cachedDropdownOptionsByColumn.get(
+        this.stateManager.getColumnKey(colIndex)
+      ),
+      this.options
+    );
+  }
+
+  /** Returns the copied cells as rows of display text, null if nothing is copied */
+  public getCopiedDisplayText(): string[][] | null {
+    const sourceRange = this.stateManager.getCopiedSourceRange();
+    const copiedCell = this.stateManager.getCopiedCell();
+    if (sourceRange) {
+      const { start, end } = sourceRange;
+      const rows: string[][] = [];
+      for (let r = start.row!; r <= end.row!; r++) {
+        const row: string[] = [];
+        for (let c = start.col!; c <= end.col!; c++) {
+          row.push(this._getCellDisplayText(r, c));
+        }
+        rows.push(row);
+      }
+      return rows;
+    }
+    if (copiedCell && copiedCell.row !== null && copiedCell.col !== null) {
+      return [[this._getCellDisplayText(copiedCell.row, copiedCell.col)]];
+    }
+    return null;
+  }
+
+  /**
+   * Writes the copied cells to the system clipboard as TSV (`text/plain`) and
+   * an HTML table (`text/html`). Returns true if anything was written.
+   */
+  public writeCopiedToClipboard(clipboardData: DataTransfer): boolean {
+    const rows = this.getCopiedDisplayText();
+    if (!rows) return false;
+    const text = toClipboardText(rows);
+    clipboardData.setData("text/plain", text);
+    clipboardData.setData("text/html", toClipboardHtml(rows));
+    this.lastClipboardText = text;
+    return true;
+  }
+
+  /**
+   * Returns true if the clipboard text is what the grid last wrote, i.e. the
+   * internal typed copy is still the current clipboard content.
+   */
+  public isOwnClipboardText(text: string): boolean {
+    if (this.lastClipboardText === null) return false;
+    const normalize = (value: string) =>
+      value.replace(/\r\n?/g, "\n").replace(/\n$/, "");
+    return normalize(text) === normalize(this.lastClipboardText);
+  }
+
   /** Pastes single value or range. Returns true if paste occurred and requires redraw. */
   public paste(): boolean {
     if (
@@ -1100,9 +1231,6 @@ export class InteractionManager {
     // Check if we have anything to paste
     const activeCell = this.stateManager.getActiveCell();
     const selectionRange = this.stateManager.getNormalizedSelectionRange();
-    const copiedValue = this.stateManager.getCopiedValue();
-    const copiedValueType = this.stateManager.getCopiedValueType();
-    const copiedRangeData = this.stateManager.getCopiedRangeData();
 
     // TODO: Handle row selection paste
     // const selectedRows = this.stateManager.getSelectedRows();
@@ -1120,17 +1248,36 @@ export class InteractionManager {
       return false;
     }
 
+    if (this.stateManager.isCutActive()) {
+      return this._pasteCut(targetRange, targetCell);
+    }
+    return this._pasteCopied(targetRange, targetCell);
+  }
+
+  /** Pastes the copied value or range to the target range or cell */
+  private _pasteCopied(
+    targetRange: { start: CellCoords; end: CellCoords } | null,
+    targetCell: CellCoords | null
+  ): boolean {
+    const copiedValue = this.stateManager.getCopiedValue();
+    const copiedValueType = this.stateManager.getCopiedValueType();
+    const copiedRangeData = this.stateManager.getCopiedRangeData();
+
     if (copiedRangeData) {
       log("log", this.options.verbose, "Pasting range data");
       // Always paste range data into range (if targetRange) or from top-left (if activeCell)
       if (targetRange) {
-        return this._pasteRangeToRange(targetRange, copiedRangeData);
+        return this.stateManager.transaction(() =>
+          this._pasteRangeToRange(targetRange, copiedRangeData)
+        );
       } else if (
         targetCell &&
         targetCell.row !== null &&
         targetCell.col !== null
       ) {
-        return this._pasteRangeFromTopLeft(targetCell, copiedRangeData);
+        return this.stateManager.transaction(() =>
+          this._pasteRangeFromTopLeft(targetCell, copiedRangeData)
+        );
       } else {
         return false;
       }
@@ -1138,17 +1285,21 @@ export class InteractionManager {
       log("log", this.options.verbose, "Pasting single value");
       // Always paste the single value into range (if targetRange) or cell (if activeCell)
       if (targetRange) {
-        return this._pasteSingleValueToRange(
-          targetRange,
-          copiedValue,
-          copiedValueType
+        return this.stateManager.transaction(() =>
+          this._pasteSingleValueToRange(
+            targetRange,
+            copiedValue,
+            copiedValueType
+          )
         );
       } else if (
         targetCell &&
         targetCell.row !== null &&
         targetCell.col !== null
       ) {
-        return this._pasteSingleValue(targetCell, copiedValue, copiedValueType);
+        return this.stateManager.transaction(() =>
+          this._pasteSingleValue(targetCell, copiedValue, copiedValueType)
+        );
       } else {
         return false;
       }
@@ -1158,6 +1309,125 @@ export class InteractionManager {
     }
   }
 
+  /**
+   * Pastes cut cells and clears the cut source cells outside the pasted area,
+   * as one undo step and one onCellsUpdate batch. The cut is consumed.
+   */
+  private _pasteCut(
+    targetRange: { start: CellCoords; end: CellCoords } | null,
+    targetCell: CellCoords | null
+  ): boolean {
+    const copiedCell = this.stateManager.getCopiedCell();
+    const copiedRangeData = this.stateManager.getCopiedRangeData();
+    const sourceRange =
+      this.stateManager.getCopiedSourceRange() ??
+      (copiedCell ? { start: copiedCell, end: copiedCell } : null);
+    if (!sourceRange) return false;
+
+    let pastedRange = targetRange;
+    if (!pastedRange && targetCell) {
+      // a paste from the top-left cell covers the size of the copied cells
+      const numRows = copiedRangeData?.length ?? 1;
+      const numCols = copiedRangeData?.[0]?.length ?? 1;
+      pastedRange = {
+        start: targetCell,
+        end: {
+          row: Math.min(
+            targetCell.row! + numRows - 1,
+            this.stateManager.dataLength - 1
+          ),
+          col: Math.min(
+            targetCell.col! + numCols - 1,
+            this.stateManager.getColumns().length - 1
+          ),
+        },
+      };
+    }
+    if (!pastedRange) return false;
+
+    let changed = false;
+    this._collectCellUpdates(() =>
+      this.stateManager.transaction(() => {
+        changed = this._pasteCopied(targetRange, targetCell);
+        // only move the cells if something was actually pasted
+        if (this.pendingCellUpdates?.length) {
+          changed = this._clearCutSource(sourceRange, pastedRange!) || changed;
+        }
+      })
+    );
+    changed = this.stateManager.clearCopyState() || changed;
+    return changed;
+  }
+
+  /**
+   * Clears the cut source cells that are outside the pasted area and not
+   * disabled. Cells that can't be blank (required) keep their value.
+   */
+  private _clearCutSource(
+    sourceRange: { start: CellCoords; end: CellCoords },
+    pastedRange: { start: CellCoords; end: CellCoords }
+  ): boolean {
+    const affectedRows: number[] = [];
+    const affectedColumns = new Set<string>();
+    const oldRows = new Map<number, any>();
+    const errors: { row: number; col: number; error: string }[] = [];
+
+    for (let row = sourceRange.start.row!; row <= sourceRange.end.row!; row++) {
+      for (
+        let col = sourceRange.start.col!;
+        col <= sourceRange.end.col!;
+        col++
+      ) {
+        const isPasted =
+          row >= pastedRange.start.row! &&
+          row <= pastedRange.end.row! &&
+          col >= pastedRange.start.col! &&
+          col <= pastedRange.end.col!;
+        if (isPasted || this.stateManager.isCellDisabled(row, col)) continue;
+
+        const currentValue = this.stateManager.getCellData(row, col);
+        if (isBlankValue(currentValue)) continue;
+
+        const colKey = this.stateManager.getColumnKey(col);
+        const validationResult = validateInput(
+          null,
+          this.stateManager.getSchemaForColumn(col),
+          colKey,
+          this.stateManager.cachedDropdownOptionsByColumn.get(colKey),
+          this.options.verbose,
+          this.stateManager.getData(true),
+          this.stateManager.getDataRowIndex(row)
+        );
+        if ("error" in validationResult) {
+          errors.push({ row, col, error: validationResult.error });
+          continue;
+        }
+
+        const oldValue = this.stateManager.updateCellInternal(row, col, null);
+        if (!oldRows.has(row)) affectedRows.push(row);
+        affectedColumns.add(colKey);
+        oldRows.set(row, { ...oldRows.get(row), [colKey]: oldValue });
+      }
+    }
+
+    if (errors.length > 0) {
+      this.renderer.setTemporaryErrors(errors);
+    }
+    if (affectedRows.length > 0) {
+      this._batchUpdateCellsAndNotify(
+        affectedRows,
+        Array.from(affectedColumns),
+        affectedRows.map((row) => oldRows.get(row))
+      );
+      log(
+        "log",
+        this.options.verbose,
+        `Cleared cut source range [${sourceRange.start.row},${sourceRange.start.col}] -> [${sourceRange.end.row},${sourceRange.end.col}]`
+      );
+    }
+    return affectedRows.length > 0 || errors.length > 0;
+  }
+
   /** Case 1: Paste single value to single cell */
   private _pasteSingleValue(
     targetCell: CellCoords,
@@ -1210,7 +1480,7 @@ export class InteractionManager {
       this.stateManager.cachedDropdownOptionsByColumn.get(targetColKey),
       this.options.verbose,
       this.stateManager.getData(true),
-      targetRow
+      this.stateManager.getDataRowIndex(targetRow)
     );
     if ("error" in validationResult) {
       log("log", this.options.verbose, validationResult.error);
@@ -1295,7 +1565,7 @@ export class InteractionManager {
           this.stateManager.cachedDropdownOptionsByColumn.get(targetColKey),
           this.options.verbose,
           this.stateManager.getData(true),
-          row
+          this.stateManager.getDataRowIndex(row)
         );
         if ("error" in validationResult) {
           log("warn", this.options.verbose, validationResult.error);
@@ -1352,7 +1622,7 @@ export class InteractionManager {
   }
 
   /** Helper method to convert values between different data types */
-  private _convertValueForTargetType(
+  public _convertValueForTargetType(
     value: any,
     colKey: string,
     schema?: ColumnSchema
@@ -1407,16 +1677,16 @@ export class InteractionManager {
         return null;
 
       case "date":
-        if (value instanceof Date) return value.toISOString().split("T")[0];
+        // Handle numeric timestamps and various date formats, without
+        // shifting local dates like 10/19/2026 to UTC
+        return parseDateValue(value);
 
-        try {
-          // Handle numeric timestamps and various date formats
-          const date = new Date(value);
-          if (!isNaN(date.getTime())) {
-            return date.toISOString().split("T")[0]; // YYYY-MM-DD format
-          }
-        } catch (e) {}
-        return null;
+      case "datetime":
+        // texts without a UTC offset are in the display time zone
+        return parseDateTimeValue(value, this.options.timeZone);
+
+      case "time":
+        return parseTimeValue(value, this.options.timeZone);
 
       case "select":
         // For select, we need to check if the value matches any option id or name
@@ -1510,7 +1780,7 @@ export class InteractionManager {
           this.stateManager.cachedDropdownOptionsByColumn.get(targetColKey),
           this.options.verbose,
           this.stateManager.getData(true),
-          targetRow
+          this.stateManager.getDataRowIndex(targetRow)
         );
         if ("error" in validationResult) {
           log("warn", this.options.verbose, validationResult.error);
@@ -1625,7 +1895,7 @@ export class InteractionManager {
           this.stateManager.cachedDropdownOptionsByColumn.get(targetColKey),
           this.options.verbose,
           this.stateManager.getData(true),
-          row
+          this.stateManager.getDataRowIndex(row)
         );
         if ("error" in validationResult) {
           log("warn", this.options.verbose, validationResult.error);
@@ -1700,7 +1970,9 @@ export class InteractionManager {
     const selectedRowData = rowsToDelete
       .map((rowIndex) => this.stateManager.getRowData(rowIndex)!)
       .filter((row) => row);
-    let deletedCount = this.stateManager.deleteRows(rowsToDelete);
+    let deletedCount = this.stateManager.transaction(() =>
+      this.stateManager.deleteRows(rowsToDelete)
+    );
     try {
       this.options.onRowDeleted?.(selectedRowData);
     } catch (error) {
@@ -1723,6 +1995,546 @@ export class InteractionManager {
     return false;
   }
 
+  /**
+   * Inserts rows before a data row as one undo step and calls onRowsInserted.
+   * Doesn't redraw. Returns the number of inserted rows
+   */
+  public insertRows(
+    dataRowIndex: number,
+    values: DataRow[],
+    viewRowIndex?: number
+  ): number {
+    const rows = this.stateManager.transaction(() =>
+      this.stateManager.insertRows(dataRowIndex, values, viewRowIndex)
+    );
+    if (!rows.length) return 0;
+    log("log", this.options.verbose, `Inserted ${rows.length} rows`);
+    // the state manager clamps the index to the data
+    const rowIndex = Math.max(
+      0,
+      Math.min(dataRowIndex, this.stateManager.totalDataLength - rows.length)
+    );
+    this._callOnRowsInserted(rowIndex, rows);
+    return rows.length;
+  }
+
+  /**
+   * Inserts as many rows as are selected above or below the selected rows,
+   * or one row next to the active cell. The active cell moves to the first new row.
+   * Returns true if rows were inserted
+   */
+  public insertRowsAtSelection(below: boolean): boolean {
+    const activeCell = this.stateManager.getActiveCell();
+    let rows = Array.from(this.stateManager.getSelectedRows());
+    if (!rows.length && activeCell?.row != null) rows = [activeCell.row];
+    if (!rows.length) return false;
+    const firstRow = Math.min(...rows);
+    const lastRow = Math.max(...rows);
+    const viewRowIndex = below ? lastRow + 1 : firstRow;
+    const dataRowIndex = below
+      ? this.stateManager.getDataRowIndex(lastRow) + 1
+      : this.stateManager.getDataRowIndex(firstRow);
+    const values = Array.from({ length: rows.length }, () => ({}));
+    if (!this.insertRows(dataRowIndex, values, viewRowIndex)) return false;
+
+    this.clearSelections();
+    this.stateManager.clearSelectionRange();
+    const col = activeCell?.col ?? 0;
+    this.stateManager.setActiveCell({ row: viewRowIndex, col });
+    // Recalculate everything and bring the new row into view
+    this.dimensionCalculator.calculateTotalSize();
+    this.triggerCustomEvent(
+      "resize",
+      this.renderer.getCellBounds(viewRowIndex, col)
+    );
+    return true;
+  }
+
+  private _callOnRowsInserted(rowIndex: number, rows: DataRow[]): void {
+    try {
+      this.options.onRowsInserted?.(rowIndex, rows);
+    } catch (error) {
+      log(
+        "error",
+        this.options.verbose,
+        `Error calling onRowsInserted: ${error}`
+      );
+    }
+  }
+
+  // --- Row Drag ---
+  /** Starts dragging the selected rows when one of their row numbers is pressed. Returns true if started */
+  public checkRowDrag(event: MouseEvent): boolean {
+    const rowIndex = this._getRowNumberFromEvent(event);
+    if (
+      rowIndex === null ||
+      this.stateManager.isResizing() ||
+      this.stateManager.getSortState() || // the sort decides the order
+      !this.stateManager.getSelectedRows().has(rowIndex)
+    ) {
+      return false;
+    }
+    this.editingManager.deactivateEditor(true);
+    this.editingManager.hideDropdown();
+    this.stateManager.setRowDragState({
+      isDragging: true,
+      startY: event.clientY,
+      targetRow: null,
+    });
+    return true;
+  }
+
+  /** Moves the drop position to the row border closest to the mouse */
+  public handleRowDragMouseMove(event: MouseEvent): void {
+    const state = this.stateManager.getRowDragState();
+    if (!state.isDragging || state.startY === null) return;
+    if (
+      state.targetRow === null &&
+      Math.abs(event.clientY - state.startY) < DRAG_THRESHOLD
+    ) {
+      return;
+    }
+    const rect = this.domManager.getCanvasBoundingClientRect();
+    const canvasY = event.clientY - rect.top;
+    const { headerHeight } = this.options;
+    const contentY =
+      canvasY - headerHeight + this.dimensionCalculator.getScrollTopAt(canvasY);
+    let targetRow = 0;
+    if (contentY > 0) {
+      const rowIndex = this.dimensionCalculator.getRowAt(contentY);
+      if (rowIndex === null) {
+        targetRow = this.stateManager.dataLength;
+      } else {
+        // drop after the row when the mouse is on its lower half
+        const rowMiddle =
+          this.dimensionCalculator.getRowTop(rowIndex) -
+          headerHeight +
+          this.stateManager.getRowHeight(rowIndex) / 2;
+        targetRow = contentY > rowMiddle ? rowIndex + 1 : rowIndex;
+      }
+    }
+    this.domManager.setCursor("grabbing");
+    if (targetRow !== state.targetRow) {
+      this.stateManager.setRowDragState({ ...state, targetRow });
+      this.renderer.draw();
+    }
+  }
+
+  /**
+   * Moves the selected rows to the drop position as one undo step and calls onRowsMoved.
+   * Returns true if the rows were dragged, so the following click is ignored
+   */
+  public endRowDrag(): boolean {
+    const { isDragging, targetRow } = this.stateManager.getRowDragState();
+    if (!isDragging) return false;
+    this.stateManager.setRowDragState({
+      isDragging: false,
+      startY: null,
+      targetRow: null,
+    });
+    if (targetRow === null) return false; // a click on the row number
+    const rows = Array.from(this.stateManager.getSelectedRows());
+    const moved = this.stateManager.transaction(() =>
+      this.stateManager.moveRows(rows, targetRow)
+    );
+    if (moved) {
+      log(
+        "log",
+        this.options.verbose,
+        `Moved rows ${moved.from.join(", ")} to ${moved.to.join(", ")}`
+      );
+      // the copied source range refers to the old row order
+      this.clearCopiedCell();
+      this._callOnRowsMoved(moved.from, moved.to);
+    }
+    this.renderer.draw();
+    return true;
+  }
+
+  private _getRowNumberFromEvent(event: MouseEvent): number | null {
+    const rect = this.domManager.getCanvasBoundingClientRect();
+    const canvasX = event.clientX - rect.left;
+    const canvasY = event.clientY - rect.top;
+    const { headerHeight, rowNumberWidth } = this.options;
+    if (canvasX >= rowNumberWidth || canvasY < headerHeight) return null;
+    const contentY =
+      canvasY - headerHeight + this.dimensionCalculator.getScrollTopAt(canvasY);
+    return this.dimensionCalculator.getRowAt(contentY);
+  }
+
+  private _callOnRowsMoved(from: number[], to: number[]): void {
+    try {
+      this.options.onRowsMoved?.(from, to);
+    } catch (error) {
+      log("error", this.options.verbose, `Error calling onRowsMoved: ${error}`);
+    }
+  }
+
+  // --- Column Drag ---
+  /** Picks up a column when its header is pressed, the drag starts once the mouse moves */
+  public startColumnDrag(colIndex: number, event: MouseEvent): void {
+    const rect = this.domManager.getCanvasBoundingClientRect();
+    const canvasX = event.clientX - rect.left;
+    const headerX =
+      this.dimensionCalculator.getColumnLeft(colIndex) -
+      this.dimensionCalculator.getScrollLeftAt(canvasX);
+    this.editingManager.deactivateEditor(true);
+    this.editingManager.hideDropdown();
+    this.stateManager.setColumnDragState({
+      isDragging: true,
+      colIndex,
+      startX: event.clientX,
+      grabOffset: canvasX - headerX,
+      currentX: null,
+      targetCol: null,
+    });
+  }
+
+  /** Moves the ghost header with the mouse and the drop marker to the closest column border */
+  public handleColumnDragMouseMove(event: MouseEvent): void {
+    const state = this.stateManager.getColumnDragState();
+    if (!state.isDragging || state.startX === null) return;
+    if (
+      state.targetCol === null &&
+      Math.abs(event.clientX - state.startX) < DRAG_THRESHOLD
+    ) {
+      return;
+    }
+    const rect = this.domManager.getCanvasBoundingClientRect();
+    const canvasX = event.clientX - rect.left;
+    const { rowNumberWidth } = this.options;
+    const scrollLeft = this.dimensionCalculator.getScrollLeftAt(canvasX);
+    const contentX = canvasX - rowNumberWidth + scrollLeft;
+    let targetCol = 0;
+    if (contentX > 0) {
+      const colIndex = this.dimensionCalculator.getColumnAt(contentX);
+      if (colIndex === null) {
+        targetCol = this.stateManager.getColumns().length;
+      } else {
+        // drop after the column when the mouse is on its right half
+        const colMiddle =
+          this.dimensionCalculator.getColumnLeft(colIndex) -
+          rowNumberWidth +
+          this.stateManager.getColumnWidth(colIndex) / 2;
+        targetCol = contentX > colMiddle ? colIndex + 1 : colIndex;
+      }
+    }
+    this.domManager.setCursor("grabbing");
+    this.stateManager.setColumnDragState({
+      ...state,
+      currentX: canvasX,
+      targetCol,
+    });
+    this.renderer.draw();
+  }
+
+  /**
+   * Moves the dragged column to the drop marker as one undo step and selects it.
+   * Returns true if the column was dragged, so the following click is ignored
+   */
+  public endColumnDrag(): boolean {
+    const { isDragging, colIndex, targetCol } =
+      this.stateManager.getColumnDragState();
+    if (!isDragging) return false;
+    this.stateManager.setColumnDragState({
+      isDragging: false,
+      colIndex: null,
+      startX: null,
+      grabOffset: 0,
+      currentX: null,
+      targetCol: null,
+    });
+    // without a target the header was clicked
+    if (colIndex === null || targetCol === null) return false;
+    const colKey = this.stateManager.getColumnKey(colIndex);
+    if (this.moveColumn(colIndex, targetCol)) {
+      const newColIndex = this.stateManager.getColumns().indexOf(colKey);
+      log(
+        "log",
+        this.options.verbose,
+        `Moved column ${colKey} to ${newColIndex}`
+      );
+      this.handleHeaderClick(newColIndex);
+    }
+    this.renderer.draw();
+    return true;
+  }
+
+  /**
+   * Moves a column before the column at `targetColIndex` (the column count moves it
+   * to the end) as one undo step. Doesn't redraw. Returns true if the order changed
+   */
+  public moveColumn(colIndex: number, targetColIndex: number): boolean {
+    const columns = this.stateManager.getColumns();
+    const colKey = columns[colIndex];
+    if (colKey === undefined) return false;
+    if (targetColIndex === colIndex || targetColIndex === colIndex + 1) {
+      return false; // dropped on its own place
+    }
+    // hidden columns keep their place in the order
+    const order = this.stateManager
+      .getColumnOrder()
+      .filter((key) => key !== colKey);
+    const targetKey = columns[Math.max(0, targetColIndex)];
+    const insertIndex =
+      targetKey === undefined ? order.length : order.indexOf(targetKey);
+    order.splice(insertIndex, 0, colKey);
+    return this.stateManager.transaction(() => this.setColumnOrder(order));
+  }
+
+  /** Changes the column order and calls onColumnOrderChange. Returns true if it changed */
+  public setColumnOrder(order: string[]): boolean {
+    if (!this.stateManager.setColumnOrder(order)) return false;
+    // the copied source range refers to the old column order
+    this.clearCopiedCell();
+    this._callOnColumnOrderChange();
+    return true;
+  }
+
+  private _callOnColumnOrderChange(): void {
+    try {
+      this.options.onColumnOrderChange?.([
+        ...this.stateManager.getColumnOrder(),
+      ]);
+    } catch (error) {
+      log(
+        "error",
+        this.options.verbose,
+        `Error calling onColumnOrderChange: ${error}`
+      );
+    }
+  }
+
+  // --- Column Groups ---
+  /** Selects all the cells of the columns under a group header. Returns true if the selection changed */
+  public selectColumnGroup(span: ColumnGroupSpan): boolean {
+    const lastRow = this.stateManager.dataLength - 1;
+    if (lastRow < 0) return this.handleHeaderClick(span.startCol);
+    const startCell = { row: 0, col: span.startCol };
+    const endCell = { row: lastRow, col: span.endCol };
+    const selectionCleared = this.clearSelections();
+    const activeChanged = this.stateManager.setActiveCell(startCell);
+    const rangeChanged = this.stateManager.setSelectionRange(
+      startCell,
+      endCell
+    );
+    log(
+      "log",
+      this.options.verbose,
+      `Column group ${span.group.key} selected.`
+    );
+    return selectionCleared || activeChanged || rangeChanged;
+  }
+
+  /** Collapses a group to its summary column or expands it, and lays out the columns again */
+  public toggleColumnGroup(groupKey: string): void {
+    const group = this.stateManager.getColumnGroup(groupKey);
+    if (group && this.setColumnGroupCollapsed(groupKey, !group.collapsed)) {
+      this.triggerCustomEvent("layout");
+    }
+  }
+
+  /** Collapses or expands a group and calls onColumnGroupToggle. Doesn't redraw. Returns true if it changed */
+  public setColumnGroupCollapsed(
+    groupKey: string,
+    collapsed: boolean
+  ): boolean {
+    if (!this.stateManager.setColumnGroupCollapsed(groupKey, collapsed)) {
+      return false;
+    }
+    // the copied source range refers to the old columns
+    this.clearCopiedCell();
+    try {
+      this.options.onColumnGroupToggle?.(groupKey, collapsed);
+    } catch (error) {
+      log(
+        "error",
+        this.options.verbose,
+        `Error calling onColumnGroupToggle: ${error}`
+      );
+    }
+    return true;
+  }
+
+  // --- Sorting ---
+  /** Sorts the view by a column, a null direction restores the data order. Returns true if the sort changed */
+  public sortByColumn(
+    colKey: string,
+    direction: SortDirection | null
+  ): boolean {
+    if (direction && !this.stateManager.getSchema()[colKey]) {
+      log(
+        "warn",
+        this.options.verbose,
+        `sortByColumn: Invalid column key (${colKey}).`
+      );
+      return false;
+    }
+    this.editingManager.deactivateEditor(true);
+    this.editingManager.hideDropdown();
+    const sortState = direction ? { colKey, direction } : null;
+    const changed = this.stateManager.setSortState(sortState);
+    // the copied source range refers to the old row order
+    this.clearCopiedCell();
+    if (changed) {
+      try {
+        this.options.onSortChange?.(sortState);
+      } catch (error) {
+        log(
+          "error",
+          this.options.verbose,
+          `Error calling onSortChange: ${error}`
+        );
+      }
+    }
+    return changed;
+  }
+
+  /** Cycles the sort of a column: ascending, descending, none. Returns true if the sort changed */
+  public toggleColumnSort(colIndex: number): boolean {
+    if (!this.stateManager.isColumnSortable(colIndex)) return false;
+    const colKey = this.stateManager.getColumnKey(colIndex);
+    const current = this.stateManager.getSortState();
+    let direction: SortDirection | null = "asc";
+    if (current?.colKey === colKey) {
+      direction = current.direction === "asc" ? "desc" : null;
+    }
+    return this.sortByColumn(colKey, direction);
+  }
+
+  // --- Filtering ---
+  /** Sets or removes (null) the filter of a column. Returns true if the filters changed */
+  public setColumnFilter(colKey: string, filter: ColumnFilter | null): boolean {
+    if (filter && !this.stateManager.getSchema()[colKey]) {
+      log(
+        "warn",
+        this.options.verbose,
+        `setColumnFilter: Invalid column key (${colKey}).`
+      );
+      return false;
+    }
+    this.editingManager.deactivateEditor(true);
+    this.editingManager.hideDropdown();
+    const changed = this.stateManager.setFilter(colKey, filter);
+    if (changed) this._afterFilterChange();
+    return changed;
+  }
+
+  /** Removes all filters. Returns true if there were any */
+  public clearFilters(): boolean {
+    this.editingManager.deactivateEditor(true);
+    this.editingManager.hideDropdown();
+    const changed = this.stateManager.clearFilters();
+    if (changed) this._afterFilterChange();
+    return changed;
+  }
+
+  private _afterFilterChange(): void {
+    // the copied source range refers to rows that may be hidden now
+    this.clearCopiedCell();
+    try {
+      this.options.onFilterChange?.(
+        Object.fromEntries(this.stateManager.getFilters())
+      );
+    } catch (error) {
+      log(
+        "error",
+        this.options.verbose,
+        `Error calling onFilterChange: ${error}`
+      );
+    }
+  }
+
+  // --- History ---
+  /** Reverts the last transaction. Returns true if anything was undone */
+  public undo(): boolean {
+    return this._applyHistory(true);
+  }
+
+  /** Re-applies the last undone transaction. Returns true if anything was redone */
+  public redo(): boolean {
+    return this._applyHistory(false);
+  }
+
+  private _applyHistory(isUndo: boolean): boolean {
+    const result = isUndo ? this.stateManager.undo() : this.stateManager.redo();
+    if (!result) return false;
+    log(
+      "log",
+      this.options.verbose,
+      `${isUndo ? "Undo" : "Redo"}: ${result.cellUpdates.length} rows updated`
+    );
+
+    this.clearSelections();
+    this.stateManager.clearSelectionRange();
+    if (result.structural) {
+      this.clearCopiedCell();
+    }
+
+    // move the active cell to the first reverted cell
+    let focusBounds: CellBounds | null = null;
+    if (result.focusCell) {
+      const col = this.stateManager
+        .getColumns()
+        .indexOf(result.focusCell.colKey);
+      const row = this.stateManager.getViewRowIndex(
+        result.focusCell.rowIndex
+      );
+      if (col >= 0 && row >= 0) {
+        this.stateManager.setActiveCell({ row, col });
+        focusBounds = this.renderer.getCellBounds(row, col);
+      }
+    } else if (result.structural) {
+      this.stateManager.setActiveCell(null);
+    }
+
+    if (result.cellUpdates.length) {
+      this.dimensionCalculator.invalidateRowHeights(
+        result.cellUpdates.map(({ rowIndex }) => rowIndex)
+      );
+      this.stateManager.callOnCellsUpdate(result.cellUpdates);
+    }
+    if (result.deletedRows.length) {
+      try {
+        this.options.onRowDeleted?.(result.deletedRows);
+      } catch (error) {
+        log(
+          "error",
+          this.options.verbose,
+          `Error calling onRowDeleted: ${error}`
+        );
+      }
+    }
+    for (const { rowIndex, rows } of result.insertedRows) {
+      this._callOnRowsInserted(rowIndex, rows);
+    }
+    for (const { from, to } of result.movedRows) {
+      this._callOnRowsMoved(from, to);
+    }
+    if (result.columnOrder) {
+      this._callOnColumnOrderChange();
+    }
+    for (const colKey of result.deletedColumns) {
+      try {
+        this.options.onColumnDeleted?.(colKey);
+      } catch (error) {
+        log(
+          "error",
+          this.options.verbose,
+          `Error calling onColumnDeleted: ${error}`
+        );
+      }
+    }
+
+    if (result.structural) {
+      // Recalculate everything after rows or columns came back or went away
+      this.triggerCustomEvent("resize", focusBounds);
+    } else if (focusBounds) {
+      this.bringBoundsIntoView(focusBounds);
+    }
+    return true;
+  }
+
   // --- Selection Drag ---
 
   /** Starts a cell selection drag. Returns true if state changed */
@@ -2000,7 +2812,7 @@ export class InteractionManager {
           this.stateManager.cachedDropdownOptionsByColumn.get(targetColKey),
           this.options.verbose,
           this.stateManager.getData(true),
-          targetRow
+          this.stateManager.getDataRowIndex(targetRow)
         );
         if ("error" in validationResult) {
           log("warn", this.options.verbose, validationResult.error);
@@ -2104,7 +2916,7 @@ export class InteractionManager {
           this.stateManager.cachedDropdownOptionsByColumn.get(targetColKey),
           this.options.verbose,
           this.stateManager.getData(true),
-          row
+          this.stateManager.getDataRowIndex(row)
         );
         if ("error" in validationResult) {
           log("warn", this.options.verbose, validationResult.error);
@@ -1,8 +1,25 @@
-import { RequiredSpreadsheetOptions, CellBounds } from "./types";
+import {
+  RequiredSpreadsheetOptions,
+  CellBounds,
+  CellRenderer,
+  CellRenderState,
+  CellStyle,
+  ColumnSchema,
+  ColumnGroupSpan,
+  SortDirection,
+  DataRow,
+  HeaderIcon,
+} from "./types";
 import { StateManager } from "./state-manager";
 import { DimensionCalculator } from "./dimension-calculator";
-import { formatValue } from "./utils";
-import { LOADING_FIELD_PREFIX, ERROR_FIELD_PREFIX } from "./config";
+import { formatValue, log } from "./utils";
+import {
+  LOADING_FIELD_PREFIX,
+  ERROR_FIELD_PREFIX,
+  FORMULA_ERROR_FIELD_PREFIX,
+} from "./config";
+
+const STYLE_BAR_WIDTH = 3; // left-edge bar of styled cells and rows
 
 export class Renderer {
   private ctx: CanvasRenderingContext2D;
@@ -11,6 +28,7 @@ export class Renderer {
   private dimensionCalculator: DimensionCalculator;
   private temporaryErrors: Map<string, { error?: string; expireAt: number }> =
     new Map();
+  private temporaryErrorTimeouts = new Set<ReturnType<typeof setTimeout>>();
 
   constructor(
     ctx: CanvasRenderingContext2D,
@@ -49,7 +67,8 @@ export class Renderer {
     }
 
     // Set timeout to clear the error
-    setTimeout(() => {
+    const timeout = setTimeout(() => {
+      this.temporaryErrorTimeouts.delete(timeout);
       let clearCount = 0;
       for (const [key] of keys) {
         clearCount += this.temporaryErrors.delete(key) ? 1 : 0;
@@ -58,6 +77,7 @@ export class Renderer {
         this.draw(); // Redraw to update display
       }
     }, temporaryErrorTimeout);
+    this.temporaryErrorTimeouts.add(timeout);
   }
   /**
    * Clears temporary errors for the given cells
@@ -72,6 +92,13 @@ export class Renderer {
     return clearCount > 0;
   }
 
+  /** Cancels the pending temporary error timeouts */
+  public destroy(): void {
+    this.temporaryErrorTimeouts.forEach((timeout) => clearTimeout(timeout));
+    this.temporaryErrorTimeouts.clear();
+    this.temporaryErrors.clear();
+  }
+
   public draw(): void {
     this.ctx.save();
     this.ctx.font = this.options.font;
@@ -85,28 +112,104 @@ export class Renderer {
     this._drawHeaders(); // Fixed headers on top
     this._drawRowNumbers(); // Fixed row numbers on left
 
-    // Now apply translation for scrollable content area only
-    this.ctx.save();
-    this.ctx.beginPath();
-    // Create a clipping region for the scrollable content area
+    // The content area is split into up to four panes: the frozen corner,
+    // the frozen rows, the frozen columns and the scrolling cells.
+    // Each pane has its own clip and only scrolls along its free axes.
     const { headerHeight, rowNumberWidth } = this.options;
-    this.ctx.rect(
-      rowNumberWidth,
-      headerHeight,
-      this.stateManager.getViewportWidth() - rowNumberWidth,
-      this.stateManager.getViewportHeight() - headerHeight
+    const viewportWidth = this.stateManager.getViewportWidth();
+    const viewportHeight = this.stateManager.getViewportHeight();
+    const scrollLeft = this.stateManager.getScrollLeft();
+    const scrollTop = this.stateManager.getScrollTop();
+    const { visibleRowStart, visibleRowEnd, visibleColStart, visibleColEnd } =
+      this.stateManager.getVisibleRange();
+    const frozenRowCount = this.dimensionCalculator.getFrozenRowCount();
+    const frozenColumnCount = this.dimensionCalculator.getFrozenColumnCount();
+    const paneLeft = rowNumberWidth + this.dimensionCalculator.getFrozenWidth();
+    const paneTop = headerHeight + this.dimensionCalculator.getFrozenHeight();
+
+    this._drawPane(
+      {
+        x: paneLeft,
+        y: paneTop,
+        width: viewportWidth - paneLeft,
+        height: viewportHeight - paneTop,
+      },
+      [visibleRowStart, visibleRowEnd],
+      [visibleColStart, visibleColEnd],
+      scrollLeft,
+      scrollTop
     );
+    if (frozenRowCount) {
+      this._drawPane(
+        {
+          x: paneLeft,
+          y: headerHeight,
+          width: viewportWidth - paneLeft,
+          height: paneTop - headerHeight,
+        },
+        [0, frozenRowCount - 1],
+        [visibleColStart, visibleColEnd],
+        scrollLeft,
+        0
+      );
+    }
+    if (frozenColumnCount) {
+      this._drawPane(
+        {
+          x: rowNumberWidth,
+          y: paneTop,
+          width: paneLeft - rowNumberWidth,
+          height: viewportHeight - paneTop,
+        },
+        [visibleRowStart, visibleRowEnd],
+        [0, frozenColumnCount - 1],
+        0,
+        scrollTop
+      );
+    }
+    if (frozenRowCount && frozenColumnCount) {
+      this._drawPane(
+        {
+          x: rowNumberWidth,
+          y: headerHeight,
+          width: paneLeft - rowNumberWidth,
+          height: paneTop - headerHeight,
+        },
+        [0, frozenRowCount - 1],
+        [0, frozenColumnCount - 1],
+        0,
+        0
+      );
+    }
+    this._drawFrozenDividers(paneLeft, paneTop);
+
+    this.ctx.restore(); // Restore from first save
+  }
+
+  /**
+   * Draws the cells of a row/column range and the overlays inside a clipped pane
+   * @param clip Pane bounds in viewport coordinates
+   * @param scrollLeft Horizontal scroll applied to the pane, 0 if it is frozen
+   * @param scrollTop Vertical scroll applied to the pane, 0 if it is frozen
+   */
+  private _drawPane(
+    clip: CellBounds,
+    [rowStart, rowEnd]: [number, number],
+    [colStart, colEnd]: [number, number],
+    scrollLeft: number,
+    scrollTop: number
+  ): void {
+    if (clip.width <= 0 || clip.height <= 0) return;
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(clip.x, clip.y, clip.width, clip.height);
     this.ctx.clip();
 
-    // Apply scroll translation only for the content area
-    this.ctx.translate(
-      -this.stateManager.getScrollLeft(),
-      -this.stateManager.getScrollTop()
-    );
+    // Apply the scroll translation of this pane
+    this.ctx.translate(-scrollLeft, -scrollTop);
 
-    // Draw the scrollable content
-    this._drawCells();
-    this._drawGridLines();
+    this._drawCells(rowStart, rowEnd, colStart, colEnd);
+    this._drawGridLines(rowStart, rowEnd, colStart, colEnd);
     this._drawCopiedCellHighlight();
     this._drawActiveCellHighlight();
     this._drawSelectedColumnHighlight();
@@ -114,7 +217,45 @@ export class Renderer {
     this._drawDragRange();
 
     this.ctx.restore(); // Restore from clip/translation
-    this.ctx.restore(); // Restore from first save
+  }
+
+  /** Draws the lines separating the frozen panes from the scrolling cells */
+  private _drawFrozenDividers(paneLeft: number, paneTop: number): void {
+    const { headerHeight, rowNumberWidth, frozenDividerColor } = this.options;
+    const viewportWidth = this.stateManager.getViewportWidth();
+    const viewportHeight = this.stateManager.getViewportHeight();
+    this.ctx.save();
+    this.ctx.strokeStyle = frozenDividerColor;
+    this.ctx.lineWidth = 2;
+    if (this.dimensionCalculator.getFrozenColumnCount()) {
+      this.ctx.beginPath();
+      this.ctx.moveTo(paneLeft - 1, 0);
+      this.ctx.lineTo(paneLeft - 1, viewportHeight);
+      this.ctx.stroke();
+    }
+    if (this.dimensionCalculator.getFrozenRowCount()) {
+      this.ctx.beginPath();
+      this.ctx.moveTo(0, paneTop - 1);
+      this.ctx.lineTo(viewportWidth, paneTop - 1);
+      this.ctx.stroke();
+    }
+    this.ctx.restore();
+  }
+
+  /**
+   * Returns the x of a 1px vertical line that ends at the given position,
+   * snapped to the device pixel grid of the current transform. Keeps lines
+   * sharp at any devicePixelRatio and with fractional scroll offsets.
+   */
+  private _alignX(x: number): number {
+    const { a: scale, e: offset } = this.ctx.getTransform();
+    return (Math.round(x * scale + offset) - offset) / scale - 0.5;
+  }
+
+  /** Same as _alignX for the y of a horizontal line */
+  private _alignY(y: number): number {
+    const { d: scale, f: offset } = this.ctx.getTransform();
+    return (Math.round(y * scale + offset) - offset) / scale - 0.5;
   }
 
   private _cleanupExpiredErrors(): void {
@@ -149,11 +290,124 @@ export class Renderer {
     this.ctx.fillRect(x, y, rowNumberWidth, headerHeight);
     this.ctx.strokeStyle = gridLineColor;
     // top and left border not needed
-    this.ctx.strokeRect(x - 0.5, y - 0.5, rowNumberWidth, headerHeight);
+    this.ctx.strokeRect(
+      this._alignX(x + rowNumberWidth) - rowNumberWidth,
+      this._alignY(y + headerHeight) - headerHeight,
+      rowNumberWidth,
+      headerHeight
+    );
     this.ctx.restore();
   }
 
   private _drawHeaders(): void {
+    const { rowNumberWidth } = this.options;
+    const columnCount = this.stateManager.getColumns().length;
+    const frozenColumnCount = this.dimensionCalculator.getFrozenColumnCount();
+    const paneLeft = rowNumberWidth + this.dimensionCalculator.getFrozenWidth();
+    this._drawHeaderPane(
+      paneLeft,
+      this.stateManager.getViewportWidth() - paneLeft,
+      frozenColumnCount,
+      columnCount - 1,
+      this.stateManager.getScrollLeft()
+    );
+    if (frozenColumnCount) {
+      this._drawHeaderPane(
+        rowNumberWidth,
+        paneLeft - rowNumberWidth,
+        0,
+        frozenColumnCount - 1,
+        0
+      );
+    }
+    this._drawColumnDrag();
+  }
+
+  /** Draws the drop marker and a ghost of the dragged header under the mouse */
+  private _drawColumnDrag(): void {
+    const { colIndex, targetCol, currentX, grabOffset } =
+      this.stateManager.getColumnDragState();
+    if (colIndex === null || targetCol === null || currentX === null) return;
+    const {
+      headerHeight,
+      rowNumberWidth,
+      headerFont,
+      headerBgColor,
+      headerTextColor,
+      padding,
+      highlightBorderColor,
+    } = this.options;
+    const viewportWidth = this.stateManager.getViewportWidth();
+    const frozenWidth = this.dimensionCalculator.getFrozenWidth();
+    const labelTop = this.dimensionCalculator.getGroupHeaderHeight();
+    const labelHeight = headerHeight - labelTop;
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(
+      rowNumberWidth,
+      labelTop,
+      viewportWidth - rowNumberWidth,
+      labelHeight
+    );
+    this.ctx.clip();
+
+    // Drop marker on the border before the target column
+    const markerContentX =
+      this.dimensionCalculator.getColumnLeft(targetCol) - rowNumberWidth;
+    const markerX =
+      rowNumberWidth +
+      markerContentX -
+      (markerContentX > frozenWidth ? this.stateManager.getScrollLeft() : 0);
+    this.ctx.strokeStyle = highlightBorderColor;
+    this.ctx.lineWidth = 3;
+    this.ctx.beginPath();
+    this.ctx.moveTo(markerX, labelTop);
+    this.ctx.lineTo(markerX, headerHeight);
+    this.ctx.stroke();
+
+    // Ghost of the dragged header
+    const colKey = this.stateManager.getColumnKey(colIndex);
+    const schemaCol = this.stateManager.getSchema()[colKey];
+    const colWidth = this.stateManager.getColumnWidth(colIndex);
+    const ghostX = currentX - grabOffset;
+    this.ctx.globalAlpha = 0.7;
+    this.ctx.fillStyle = headerBgColor;
+    this.ctx.fillRect(ghostX, labelTop, colWidth, labelHeight);
+    this.ctx.strokeStyle = highlightBorderColor;
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(
+      this._alignX(ghostX),
+      this._alignY(labelTop),
+      colWidth,
+      labelHeight - 1
+    );
+    this.ctx.beginPath();
+    this.ctx.rect(ghostX, labelTop, colWidth, labelHeight);
+    this.ctx.clip();
+    this.ctx.font = headerFont;
+    this.ctx.textAlign = "left";
+    this.ctx.textBaseline = "middle";
+    this.ctx.fillStyle = headerTextColor;
+    this.ctx.fillText(
+      schemaCol?.label || colKey,
+      ghostX + padding,
+      labelTop + labelHeight / 2
+    );
+    this.ctx.restore();
+  }
+
+  /**
+   * Draws the headers of a column range, clipped horizontally to the pane
+   * @param scrollLeft Horizontal scroll applied to the pane, 0 if it is frozen
+   */
+  private _drawHeaderPane(
+    clipX: number,
+    clipWidth: number,
+    colStart: number,
+    colEnd: number,
+    scrollLeft: number
+  ): void {
+    if (clipWidth <= 0) return;
     const {
       headerHeight,
       rowNumberWidth,
@@ -171,21 +425,27 @@ export class Renderer {
       readonlyHeaderTextColor,
       highlightBorderColor,
       defaultColumnWidth,
+      headerIconSize,
+      resizeHandleSize,
     } = this.options;
     const columns = this.stateManager.getColumns();
     const schema = this.stateManager.getSchema();
     const columnWidths = this.stateManager.getColumnWidths();
     const selectedColumn = this.stateManager.getSelectedColumn();
-    // Get scroll position for header horizontal scrolling
-    const scrollLeft = this.stateManager.getScrollLeft();
+    const sortState = this.stateManager.getSortState();
+    const filters = this.stateManager.getFilters();
     const totalContentWidth = this.stateManager.getTotalContentWidth();
     const viewportWidth = this.stateManager.getViewportWidth();
+    // the column labels are drawn below the group band
+    const labelTop = this.dimensionCalculator.getGroupHeaderHeight();
+    const labelHeight = headerHeight - labelTop;
+    const labelY = labelTop + labelHeight / 2;
     this.ctx.save();
 
     // Clip drawing to the visible header area (fixed vertical position)
-    const headerVisibleX = rowNumberWidth; // Start after row numbers
+    const headerVisibleX = clipX;
     const headerVisibleY = 0;
-    const headerVisibleWidth = viewportWidth - rowNumberWidth;
+    const headerVisibleWidth = clipWidth;
     const headerVisibleHeight = headerHeight;
 
     this.ctx.beginPath();
@@ -210,13 +470,13 @@ export class Renderer {
     this.ctx.textBaseline = "middle";
 
     // Calculate which columns are visible
-    let currentX = rowNumberWidth;
+    let currentX = this.dimensionCalculator.getColumnLeft(colStart);
 
-    for (let col = 0; col < columns.length; col++) {
+    for (let col = colStart; col <= colEnd; col++) {
       const colWidth = columnWidths.get(col) || defaultColumnWidth;
 
       // Skip if column is completely out of view
-      if (currentX + colWidth < scrollLeft + rowNumberWidth) {
+      if (currentX + colWidth < scrollLeft + headerVisibleX) {
         currentX += colWidth;
         continue;
       }
@@ -247,36 +507,58 @@ export class Renderer {
       }
       if (customBgColor) {
         this.ctx.fillStyle = customBgColor;
-        this.ctx.fillRect(currentX, 0, colWidth, headerHeight);
+        this.ctx.fillRect(currentX, labelTop, colWidth, labelHeight);
       }
 
       if (isColumnSelected) {
         this.ctx.strokeStyle = highlightBorderColor;
         this.ctx.lineWidth = 2;
-        this.ctx.strokeRect(currentX + 1, 1, colWidth - 2, headerHeight);
+        this.ctx.strokeRect(
+          currentX + 1,
+          labelTop + 1,
+          colWidth - 2,
+          labelHeight
+        );
       }
 
+      // Reserve space for the icons on the right side of the header
+      const icons = this.getHeaderIcons(col);
+      icons.forEach((icon, slot) => {
+        const iconX =
+          currentX + colWidth - resizeHandleSize - headerIconSize * (slot + 1);
+        const iconY = labelTop + (labelHeight - headerIconSize) / 2;
+        if (icon === "sort") {
+          const direction =
+            sortState?.colKey === colKey ? sortState.direction : null;
+          this._drawSortIcon(iconX, iconY, direction, customTextColor);
+        } else {
+          const isFiltered = filters.has(colKey);
+          this._drawFilterIcon(iconX, iconY, isFiltered, customTextColor);
+        }
+      });
+      const textWidth = colWidth - icons.length * headerIconSize;
+
       // Draw text centered in the column
       this.ctx.fillStyle = customTextColor;
       let textX = currentX + padding;
       if (headerTextAlign === "center") {
-        textX = currentX + colWidth / 2;
+        textX = currentX + textWidth / 2;
       } else if (headerTextAlign === "right") {
-        textX = currentX + colWidth - padding;
+        textX = currentX + textWidth - padding;
       }
       if (!headerClipText) {
         this.ctx.fillText(
           headerText,
           textX,
-          headerHeight / 2,
-          colWidth - padding * 2
+          labelY,
+          textWidth - padding * 2
         );
       } else {
         this.ctx.save();
         this.ctx.beginPath();
-        this.ctx.rect(currentX, 0, colWidth, headerHeight);
+        this.ctx.rect(currentX, labelTop, textWidth, labelHeight);
         this.ctx.clip();
-        this.ctx.fillText(headerText, textX, headerHeight / 2);
+        this.ctx.fillText(headerText, textX, labelY);
         this.ctx.restore();
       }
 
@@ -285,19 +567,34 @@ export class Renderer {
         this.ctx.strokeStyle = gridLineColor;
         this.ctx.lineWidth = 1;
         this.ctx.beginPath();
-        const lineX = Math.round(currentX + colWidth) - 0.5; // Align to pixel grid
-        this.ctx.moveTo(lineX, 0);
+        const lineX = this._alignX(currentX + colWidth);
+        // the group band has no separators inside a group
+        const span = this.stateManager.getColumnGroupSpan(col);
+        this.ctx.moveTo(lineX, span && col < span.endCol ? labelTop : 0);
         this.ctx.lineTo(lineX, headerHeight);
         this.ctx.stroke();
       }
 
+      // Mark the borders where columns are hidden
+      if (this.stateManager.getHiddenColumnsBefore(col).length) {
+        this._drawHiddenColumnsMarker(currentX);
+      }
+      if (
+        col === columns.length - 1 &&
+        this.stateManager.getHiddenColumnsBefore(col + 1).length
+      ) {
+        this._drawHiddenColumnsMarker(currentX + colWidth);
+      }
+
       currentX += colWidth;
     }
 
+    this._drawColumnGroupBand(colStart, colEnd);
+
     // Draw bottom border of the header row
     this.ctx.strokeStyle = gridLineColor;
     this.ctx.beginPath();
-    const lineY = headerHeight - 0.5;
+    const lineY = this._alignY(headerHeight);
     this.ctx.moveTo(rowNumberWidth, lineY);
     this.ctx.lineTo(Math.max(currentX, totalContentWidth + scrollLeft), lineY);
     this.ctx.stroke();
@@ -305,7 +602,205 @@ export class Renderer {
     this.ctx.restore(); // Restore clipping context
   }
 
+  /**
+   * Draws the group headers over a column range, their labels centered over
+   * the grouped columns, in the translated header pane
+   */
+  private _drawColumnGroupBand(colStart: number, colEnd: number): void {
+    const labelTop = this.dimensionCalculator.getGroupHeaderHeight();
+    if (!labelTop) return;
+    const {
+      rowNumberWidth,
+      headerFont,
+      headerTextColor,
+      gridLineColor,
+      padding,
+      headerIconSize,
+    } = this.options;
+    this.ctx.save();
+    this.ctx.font = headerFont;
+    this.ctx.textAlign = "center";
+    this.ctx.textBaseline = "middle";
+    this.ctx.fillStyle = headerTextColor;
+    for (const span of this.stateManager.getColumnGroupSpans()) {
+      // frozen columns split a span between the two panes
+      const startCol = Math.max(span.startCol, colStart);
+      const endCol = Math.min(span.endCol, colEnd);
+      if (startCol > endCol) continue;
+      const x = this.dimensionCalculator.getColumnLeft(startCol);
+      const width = this.dimensionCalculator.getColumnLeft(endCol + 1) - x;
+      const toggleBounds =
+        endCol === span.endCol ? this.getColumnGroupToggleBounds(span) : null;
+      const textWidth = width - (toggleBounds ? headerIconSize + padding : 0);
+      this.ctx.save();
+      this.ctx.beginPath();
+      this.ctx.rect(x, 0, textWidth, labelTop);
+      this.ctx.clip();
+      this.ctx.fillText(span.group.label, x + textWidth / 2, labelTop / 2);
+      this.ctx.restore();
+      if (toggleBounds) {
+        this._drawColumnGroupToggle(toggleBounds, !!span.group.collapsed);
+      }
+    }
+
+    // Border between the group band and the column labels
+    this.ctx.strokeStyle = gridLineColor;
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    const lineY = this._alignY(labelTop);
+    this.ctx.moveTo(rowNumberWidth, lineY);
+    this.ctx.lineTo(this.dimensionCalculator.getColumnLeft(colEnd + 1), lineY);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
+  /** Draws a box with a minus to collapse a group, or a plus to expand it */
+  private _drawColumnGroupToggle(bounds: CellBounds, collapsed: boolean): void {
+    const inset = 3;
+    const x = this._alignX(bounds.x + inset);
+    const y = this._alignY(bounds.y + inset);
+    const size = bounds.width - inset * 2;
+    const middleX = x + size / 2;
+    const middleY = y + size / 2;
+    this.ctx.strokeStyle = this.options.headerTextColor;
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(x, y, size, size);
+    this.ctx.beginPath();
+    this.ctx.moveTo(x + 2, middleY);
+    this.ctx.lineTo(x + size - 2, middleY);
+    if (collapsed) {
+      this.ctx.moveTo(middleX, y + 2);
+      this.ctx.lineTo(middleX, y + size - 2);
+    }
+    this.ctx.stroke();
+  }
+
+  /** Draws two arrows pointing away from a header border with hidden columns */
+  private _drawHiddenColumnsMarker(x: number): void {
+    const { headerHeight, hiddenColumnMarkerColor } = this.options;
+    const size = 4;
+    const labelTop = this.dimensionCalculator.getGroupHeaderHeight();
+    const y = labelTop + (headerHeight - labelTop) / 2;
+    this.ctx.fillStyle = hiddenColumnMarkerColor;
+    this.ctx.beginPath();
+    this.ctx.moveTo(x - 1, y - size);
+    this.ctx.lineTo(x - 1 - size, y);
+    this.ctx.lineTo(x - 1, y + size);
+    this.ctx.closePath();
+    this.ctx.moveTo(x + 1, y - size);
+    this.ctx.lineTo(x + 1 + size, y);
+    this.ctx.lineTo(x + 1, y + size);
+    this.ctx.closePath();
+    this.ctx.fill();
+  }
+
+  /** Draws a filled arrow for a sorted column, or faint up/down arrows otherwise */
+  private _drawSortIcon(
+    x: number,
+    y: number,
+    direction: SortDirection | null,
+    color: string
+  ): void {
+    const size = this.options.headerIconSize;
+    const centerX = x + size / 2;
+    const centerY = y + size / 2;
+    const halfWidth = size / 4;
+    const height = size / 4;
+
+    this.ctx.save();
+    this.ctx.fillStyle = color;
+    this.ctx.beginPath();
+    if (direction === "asc") {
+      this.ctx.moveTo(centerX - halfWidth, centerY + height / 2);
+      this.ctx.lineTo(centerX + halfWidth, centerY + height / 2);
+      this.ctx.lineTo(centerX, centerY - height / 2);
+    } else if (direction === "desc") {
+      this.ctx.moveTo(centerX - halfWidth, centerY - height / 2);
+      this.ctx.lineTo(centerX + halfWidth, centerY - height / 2);
+      this.ctx.lineTo(centerX, centerY + height / 2);
+    } else {
+      this.ctx.globalAlpha = 0.3;
+      this.ctx.moveTo(centerX - halfWidth, centerY - 1);
+      this.ctx.lineTo(centerX + halfWidth, centerY - 1);
+      this.ctx.lineTo(centerX, centerY - 1 - height);
+      this.ctx.moveTo(centerX - halfWidth, centerY + 1);
+      this.ctx.lineTo(centerX + halfWidth, centerY + 1);
+      this.ctx.lineTo(centerX, centerY + 1 + height);
+    }
+    this.ctx.closePath();
+    this.ctx.fill();
+    this.ctx.restore();
+  }
+
+  /** Draws a funnel, faint when the column is not filtered */
+  private _drawFilterIcon(
+    x: number,
+    y: number,
+    isFiltered: boolean,
+    color: string
+  ): void {
+    const size = this.options.headerIconSize;
+    const left = x + size * 0.2;
+    const right = x + size * 0.8;
+    const top = y + size * 0.25;
+    const neck = y + size * 0.5;
+    const bottom = y + size * 0.8;
+    const centerX = x + size / 2;
+    const stemWidth = size * 0.08;
+
+    this.ctx.save();
+    this.ctx.fillStyle = isFiltered ? this.options.highlightBorderColor : color;
+    if (!isFiltered) this.ctx.globalAlpha = 0.3;
+    this.ctx.beginPath();
+    this.ctx.moveTo(left, top);
+    this.ctx.lineTo(right, top);
+    this.ctx.lineTo(centerX + stemWidth, neck);
+    this.ctx.lineTo(centerX + stemWidth, bottom);
+    this.ctx.lineTo(centerX - stemWidth, bottom);
+    this.ctx.lineTo(centerX - stemWidth, neck);
+    this.ctx.closePath();
+    this.ctx.fill();
+    this.ctx.restore();
+  }
+
   private _drawRowNumbers(): void {
+    const { headerHeight } = this.options;
+    const dataLength = this.stateManager.dataLength;
+    if (!dataLength) return;
+    const frozenRowCount = this.dimensionCalculator.getFrozenRowCount();
+    const paneTop = headerHeight + this.dimensionCalculator.getFrozenHeight();
+    const { visibleRowStart, visibleRowEnd } =
+      this.stateManager.getVisibleRange();
+    this._drawRowNumberPane(
+      paneTop,
+      this.stateManager.getViewportHeight() - paneTop,
+      visibleRowStart,
+      visibleRowEnd,
+      this.stateManager.getScrollTop()
+    );
+    if (frozenRowCount) {
+      this._drawRowNumberPane(
+        headerHeight,
+        paneTop - headerHeight,
+        0,
+        frozenRowCount - 1,
+        0
+      );
+    }
+  }
+
+  /**
+   * Draws the row numbers of a row range, clipped vertically to the pane
+   * @param scrollTop Vertical scroll applied to the pane, 0 if it is frozen
+   */
+  private _drawRowNumberPane(
+    clipY: number,
+    clipHeight: number,
+    rowStart: number,
+    rowEnd: number,
+    scrollTop: number
+  ): void {
+    if (clipHeight <= 0) return;
     const {
       headerHeight,
       rowNumberWidth,
@@ -317,114 +812,138 @@ export class Renderer {
       defaultRowHeight,
       highlightBorderColor,
     } = this.options;
-    const dataLength = this.stateManager.dataLength;
     const totalContentHeight = this.stateManager.getTotalContentHeight();
-    // Get scroll position for row numbers vertical scrolling
-    const scrollTop = this.stateManager.getScrollTop();
-    const viewportHeight = this.stateManager.getViewportHeight();
-    if (dataLength) {
-      const rowHeights = this.stateManager.getRowHeights();
-      const selectedRows = this.stateManager.getSelectedRows();
-
-      this.ctx.save();
+    const rowHeights = this.stateManager.getRowHeights();
+    const selectedRows = this.stateManager.getSelectedRows();
+    // selected rows can be dragged unless the sort decides the order
+    const canDragRows = !this.stateManager.getSortState();
 
-      // Clip drawing to the visible row number area (fixed horizontal position)
-      const rowNumVisibleX = 0;
-      const rowNumVisibleY = headerHeight;
-      const rowNumVisibleWidth = rowNumberWidth;
-      const rowNumVisibleHeight = viewportHeight - headerHeight;
+    this.ctx.save();
 
-      this.ctx.beginPath();
-      this.ctx.rect(
-        rowNumVisibleX,
-        rowNumVisibleY,
-        rowNumVisibleWidth,
-        rowNumVisibleHeight
-      );
-      this.ctx.clip();
+    // Clip drawing to the visible row number area (fixed horizontal position)
+    const rowNumVisibleX = 0;
+    const rowNumVisibleY = clipY;
+    const rowNumVisibleWidth = rowNumberWidth;
+    const rowNumVisibleHeight = clipHeight;
 
-      // Apply vertical scroll for row numbers (but not horizontal)
-      this.ctx.translate(0, -scrollTop);
+    this.ctx.beginPath();
+    this.ctx.rect(
+      rowNumVisibleX,
+      rowNumVisibleY,
+      rowNumVisibleWidth,
+      rowNumVisibleHeight
+    );
+    this.ctx.clip();
 
-      // Background for the entire logical row number column height
-      this.ctx.fillStyle = rowNumberBgColor;
-      this.ctx.fillRect(0, headerHeight, rowNumberWidth, totalContentHeight);
+    // Apply vertical scroll for row numbers (but not horizontal)
+    this.ctx.translate(0, -scrollTop);
 
-      // Draw Row Numbers and Horizontal Lines
-      this.ctx.font = font;
-      this.ctx.textAlign = "center";
-      this.ctx.textBaseline = "middle";
+    // Background for the entire logical row number column height
+    this.ctx.fillStyle = rowNumberBgColor;
+    this.ctx.fillRect(0, headerHeight, rowNumberWidth, totalContentHeight);
 
-      // Calculate which rows are visible
-      let currentY = headerHeight;
+    // Draw Row Numbers and Horizontal Lines
+    this.ctx.font = font;
+    this.ctx.textAlign = "center";
+    this.ctx.textBaseline = "middle";
 
-      for (let row = 0; row < dataLength; row++) {
-        const rowHeight = rowHeights.get(row) || defaultRowHeight;
+    // The range only covers the visible rows of the pane
+    let currentY = this.dimensionCalculator.getRowTop(rowStart);
 
-        // Skip if row is completely out of view
-        if (currentY + rowHeight < scrollTop + headerHeight) {
-          currentY += rowHeight;
-          continue;
-        }
+    for (let row = rowStart; row <= rowEnd; row++) {
+      const rowHeight = rowHeights.get(row) || defaultRowHeight;
+      const isSelected = selectedRows.has(row);
+      // Highlight selected row number background
+      if (isSelected) {
+        this.ctx.fillStyle = selectedRowNumberBgColor;
+        this.ctx.fillRect(0, currentY, rowNumberWidth, rowHeight);
 
-        // Break if row is beyond bottom edge of viewport
-        if (currentY > scrollTop + viewportHeight) {
-          break;
-        }
-        const isSelected = selectedRows.has(row);
-        // Highlight selected row number background
-        if (isSelected) {
-          this.ctx.fillStyle = selectedRowNumberBgColor;
-          this.ctx.fillRect(0, currentY, rowNumberWidth, rowHeight);
-
-          // stroke the row number
-          this.ctx.strokeStyle = highlightBorderColor;
-          this.ctx.lineWidth = 2;
-          this.ctx.strokeRect(0, currentY, rowNumberWidth, rowHeight);
-        }
+        // stroke the row number
+        this.ctx.strokeStyle = highlightBorderColor;
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect(0, currentY, rowNumberWidth, rowHeight);
+      }
+      const rowStyle = this.stateManager.getRowStyle(
+        this.stateManager.getRowData(row)
+      );
+      if (rowStyle?.barColor) {
+        this.ctx.fillStyle = rowStyle.barColor;
+        this.ctx.fillRect(0, currentY, STYLE_BAR_WIDTH, rowHeight);
+      }
 
-        // Draw row number text
-        this.ctx.fillStyle = textColor;
-        this.ctx.fillText(
-          (row + 1).toString(),
-          rowNumberWidth / 2,
-          currentY + rowHeight / 2
-        );
+      // Draw row number text
+      this.ctx.fillStyle = textColor;
+      this.ctx.fillText(
+        (row + 1).toString(),
+        rowNumberWidth / 2,
+        currentY + rowHeight / 2
+      );
 
-        if (!isSelected) {
-          // Draw horizontal separator line
-          this.ctx.strokeStyle = gridLineColor;
-          this.ctx.beginPath();
-          this.ctx.lineWidth = 1;
-          const lineY = Math.round(currentY + rowHeight) - 0.5;
-          this.ctx.moveTo(0, lineY);
-          this.ctx.lineTo(rowNumberWidth, lineY);
-          this.ctx.stroke();
-        }
+      if (isSelected && canDragRows) {
+        this._drawRowDragHandle(currentY + rowHeight / 2);
+      }
 
-        currentY += rowHeight;
+      if (!isSelected) {
+        // Draw horizontal separator line
+        this.ctx.strokeStyle = gridLineColor;
+        this.ctx.beginPath();
+        this.ctx.lineWidth = 1;
+        const lineY = this._alignY(currentY + rowHeight);
+        this.ctx.moveTo(0, lineY);
+        this.ctx.lineTo(rowNumberWidth, lineY);
+        this.ctx.stroke();
       }
 
-      // Draw right border of the row number column
-      this.ctx.strokeStyle = gridLineColor;
-      this.ctx.lineWidth = 1;
+      currentY += rowHeight;
+    }
+
+    // Draw right border of the row number column
+    this.ctx.strokeStyle = gridLineColor;
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    const lineX = this._alignX(rowNumberWidth);
+    this.ctx.moveTo(lineX, headerHeight);
+    this.ctx.lineTo(lineX, Math.max(currentY, totalContentHeight + scrollTop));
+    this.ctx.stroke();
+
+    // Drop indicator of dragged rows, on the border above the target row
+    const { targetRow } = this.stateManager.getRowDragState();
+    if (
+      targetRow !== null &&
+      targetRow >= rowStart &&
+      targetRow <= rowEnd + 1
+    ) {
+      const dropY = this.dimensionCalculator.getRowTop(targetRow);
+      this.ctx.strokeStyle = highlightBorderColor;
+      this.ctx.lineWidth = 3;
       this.ctx.beginPath();
-      const lineX = rowNumberWidth - 0.5;
-      this.ctx.moveTo(lineX, headerHeight);
-      this.ctx.lineTo(
-        lineX,
-        Math.max(currentY, totalContentHeight + scrollTop)
-      );
+      this.ctx.moveTo(0, dropY);
+      this.ctx.lineTo(rowNumberWidth, dropY);
       this.ctx.stroke();
+    }
 
-      this.ctx.restore(); // Restore clipping context
+    this.ctx.restore(); // Restore clipping context
+  }
+
+  /** Draws a grip of two dot columns at the left of a row number */
+  private _drawRowDragHandle(centerY: number): void {
+    this.ctx.fillStyle = this.options.dragRangeBorderColor;
+    for (let i = -1; i <= 1; i++) {
+      for (const x of [4, 8]) {
+        this.ctx.beginPath();
+        this.ctx.arc(x, centerY + i * 4, 1, 0, Math.PI * 2);
+        this.ctx.fill();
+      }
     }
   }
 
-  private _drawCells(): void {
+  private _drawCells(
+    rowStart: number,
+    rowEnd: number,
+    colStart: number,
+    colEnd: number
+  ): void {
     const {
-      headerHeight,
-      rowNumberWidth,
       font,
       textColor,
       textAlign,
@@ -449,52 +968,44 @@ export class Renderer {
     const schema = this.stateManager.getSchema();
     const rowHeights = this.stateManager.getRowHeights();
     const columnWidths = this.stateManager.getColumnWidths();
-    const { visibleRowStart, visibleRowEnd, visibleColStart, visibleColEnd } =
-      this.stateManager.getVisibleRange();
     const selectedRows = this.stateManager.getSelectedRows();
     const selectedColumn = this.stateManager.getSelectedColumn();
     const activeCell = this.stateManager.getActiveCell();
     const selectionRange = this.stateManager.getNormalizedSelectionRange();
-    const scrollLeft = this.stateManager.getScrollLeft();
-    const scrollTop = this.stateManager.getScrollTop();
-    const viewportWidth = this.stateManager.getViewportWidth();
-    const viewportHeight = this.stateManager.getViewportHeight();
 
+    // Drawing is already clipped to the pane by the caller
     this.ctx.save();
 
-    // Clip drawing to the visible data area
-    const clipX = Math.max(0, rowNumberWidth - scrollLeft);
-    const clipY = Math.max(0, headerHeight - scrollTop);
-    const clipWidth = viewportWidth - clipX;
-    const clipHeight = viewportHeight - clipY;
-    this.ctx.beginPath();
-    this.ctx.rect(clipX + scrollLeft, clipY + scrollTop, clipWidth, clipHeight);
-    this.ctx.clip();
-
     // Set base text properties
     this.ctx.font = font;
     this.ctx.textAlign = textAlign as CanvasTextAlign;
     this.ctx.textBaseline = "middle";
 
-    let currentY = this.dimensionCalculator.getRowTop(visibleRowStart);
+    let currentY = this.dimensionCalculator.getRowTop(rowStart);
 
-    for (let row = visibleRowStart; row <= visibleRowEnd; row++) {
+    for (let row = rowStart; row <= rowEnd; row++) {
       if (row < 0 || row >= dataLength) continue;
       const data = this.stateManager.getRowData(row);
       const rowHeight = rowHeights.get(row) || defaultRowHeight;
       const isRowSelected = selectedRows.has(row);
-      let currentX = this.dimensionCalculator.getColumnLeft(visibleColStart);
+      let currentX = this.dimensionCalculator.getColumnLeft(colStart);
 
-      for (let col = visibleColStart; col <= visibleColEnd; col++) {
+      for (let col = colStart; col <= colEnd; col++) {
         if (col < 0 || col >= columns.length) continue;
 
         const colWidth = columnWidths.get(col) || defaultColumnWidth;
         const colKey = columns[col];
         const schemaCol = schema[colKey];
-        const canRenderCellDuringEdit = ["select", "boolean", "date"].includes(
-          schemaCol?.type
-        );
-        const currentCellError = data?.[`${ERROR_FIELD_PREFIX}${colKey}`];
+        const canRenderCellDuringEdit = [
+          "select",
+          "boolean",
+          "date",
+          "datetime",
+          "time",
+        ].includes(schemaCol?.type);
+        const currentCellError =
+          data?.[`${ERROR_FIELD_PREFIX}${colKey}`] ??
+          data?.[`${FORMULA_ERROR_FIELD_PREFIX}${colKey}`];
         const isDisabled = this.stateManager.isCellDisabled(row, col);
         const isActive = activeCell?.row === row && activeCell?.col === col;
         const isEditing =
@@ -502,6 +1013,7 @@ export class Renderer {
           this.stateManager.getActiveEditor()?.col === col;
         const isColumnSelected = selectedColumn === col;
         const isCellLoading = data?.[`${LOADING_FIELD_PREFIX}${colKey}`];
+        const cellStyle = this.stateManager.getCellStyle(row, colKey);
 
         // Check if this cell has a temporary error
         const temporaryError = this.temporaryErrors.get(`${row}:${col}`)?.error;
@@ -515,7 +1027,8 @@ export class Renderer {
           col <= selectionRange.end.col!;
 
         // Determine cell background color - Order matters!
-        let currentCellBg = cellBgColor; // 1. Default
+        // 1. Default, or the background of the conditional format
+        let currentCellBg = cellStyle?.backgroundColor ?? cellBgColor;
         if (isRowSelected) {
           // 2. Row selection overrides default
           currentCellBg = selectedRowBgColor;
@@ -552,6 +1065,22 @@ export class Renderer {
           this.ctx.fillStyle = currentCellBg;
           this.ctx.fillRect(currentX, currentY, colWidth, rowHeight);
         }
+        if ((!isEditing || canRenderCellDuringEdit) && cellStyle?.barColor) {
+          this.ctx.fillStyle = cellStyle.barColor;
+          this.ctx.fillRect(currentX, currentY, STYLE_BAR_WIDTH, rowHeight);
+        }
+        if ((!isEditing || canRenderCellDuringEdit) && cellStyle?.borderColor) {
+          // drawn inside the cell so the grid lines don't cover it
+          const borderWidth = cellStyle.borderWidth ?? 1;
+          this.ctx.strokeStyle = cellStyle.borderColor;
+          this.ctx.lineWidth = borderWidth;
+          this.ctx.strokeRect(
+            currentX + borderWidth / 2,
+            currentY + borderWidth / 2,
+            colWidth - borderWidth,
+            rowHeight - borderWidth
+          );
+        }
 
         // Cell Text (Skip if editing)
         let showRenderText = true;
@@ -579,30 +1108,71 @@ export class Renderer {
               : formatValue(
                   value,
                   schemaCol?.type,
-                  this.stateManager.cachedDropdownOptionsByColumn.get(colKey)
+                  this.stateManager.cachedDropdownOptionsByColumn.get(colKey),
+                  this.options
                 );
             if (!formattedValue && currentCellError) {
               formattedValue = `${currentCellError}`.includes("required")
                 ? "(required)"
                 : currentCellError;
             }
+            // Apply error text color for both permanent and temporary errors
+            const cellTextColor = isDisabled
+              ? disabledCellTextColor
+              : isEditing
+              ? placeholderTextColor
+              : currentCellError || temporaryError
+              ? errorTextColor
+              : cellStyle?.textColor ?? textColor;
+            // reset by the restore of the cell clip
+            if (cellStyle?.fontWeight || cellStyle?.fontStyle) {
+              this.ctx.font = this._getStyledFont(font, cellStyle);
+            }
+            const cellTextAlign = cellStyle?.textAlign ?? textAlign;
+            if (cellStyle?.textAlign) {
+              this.ctx.textAlign = cellStyle.textAlign;
+            }
+
+            // a flashed error is shown as text
+            const cellRenderer = temporaryError
+              ? null
+              : this._getCellRenderer(schemaCol);
+            const isRendered =
+              !!cellRenderer &&
+              this._drawCustomCell(
+                cellRenderer,
+                {
+                  x: currentX + padding,
+                  y: currentY,
+                  width: colWidth - padding * 2,
+                  height: rowHeight,
+                },
+                value,
+                data ?? {},
+                {
+                  rowIndex: this.stateManager.getDataRowIndex(row),
+                  colKey,
+                  formattedValue: formattedValue ?? "",
+                  textColor: cellTextColor,
+                  style: cellStyle,
+                  error: currentCellError ?? null,
+                  isActive,
+                  isSelected:
+                    isRowSelected || isColumnSelected || !!isInSelectionRange,
+                  isDisabled,
+                  isEditing,
+                }
+              );
             if (
+              !isRendered &&
               formattedValue !== null &&
               formattedValue !== undefined &&
               formattedValue !== ""
             ) {
-              // Apply error text color for both permanent and temporary errors
-              this.ctx.fillStyle = isDisabled
-                ? disabledCellTextColor
-                : isEditing
-                ? placeholderTextColor
-                : currentCellError || temporaryError
-                ? errorTextColor
-                : textColor;
-
-              if (textAlign === "center") {
+              this.ctx.fillStyle = cellTextColor;
+              if (cellTextAlign === "center") {
                 textX = currentX + colWidth / 2;
-              } else if (textAlign === "right") {
+              } else if (cellTextAlign === "right") {
                 textX = currentX + colWidth - padding;
               }
               // do not apply maxWidth to fillText
@@ -635,7 +1205,51 @@ export class Renderer {
     this.ctx.restore();
   }
 
-  private _drawGridLines(): void {
+  /** The render function of a column, looked up in the cellRenderers option by name */
+  private _getCellRenderer(schemaCol?: ColumnSchema): CellRenderer | null {
+    const render = schemaCol?.render;
+    if (typeof render === "string") {
+      return this.options.cellRenderers[render] ?? null;
+    }
+    return render ?? null;
+  }
+
+  /** Calls a custom cell renderer. Returns false if the text should be drawn instead */
+  private _drawCustomCell(
+    cellRenderer: CellRenderer,
+    bounds: CellBounds,
+    value: any,
+    rowData: DataRow,
+    state: CellRenderState
+  ): boolean {
+    this.ctx.save();
+    this.ctx.fillStyle = state.textColor;
+    try {
+      return cellRenderer(this.ctx, bounds, value, rowData, state) !== false;
+    } catch (error) {
+      log(
+        "error",
+        this.options.verbose,
+        `Error rendering a cell of ${state.colKey}: ${error}`
+      );
+      return false;
+    } finally {
+      this.ctx.restore();
+    }
+  }
+
+  /** Adds the font style and weight of a conditional format to a font */
+  private _getStyledFont(font: string, style: CellStyle): string {
+    return [style.fontStyle, style.fontWeight, font].filter(Boolean).join(" ");
+  }
+
+  /** Draws the lines around the cells of a row/column range of a pane */
+  private _drawGridLines(
+    rowStart: number,
+    rowEnd: number,
+    colStart: number,
+    colEnd: number
+  ): void {
     const {
       headerHeight,
       rowNumberWidth,
@@ -645,57 +1259,33 @@ export class Renderer {
     } = this.options;
     const totalWidth = this.stateManager.getTotalContentWidth();
     const totalHeight = this.stateManager.getTotalContentHeight();
-    const columns = this.stateManager.getColumns();
-    const dataLength = this.stateManager.dataLength;
     const columnWidths = this.stateManager.getColumnWidths();
     const rowHeights = this.stateManager.getRowHeights();
-    const viewportWidth = this.stateManager.getViewportWidth();
-    const viewportHeight = this.stateManager.getViewportHeight();
-
-    // For visibility checks, we still need the scroll positions
-    const scrollLeft = this.stateManager.getScrollLeft();
-    const scrollTop = this.stateManager.getScrollTop();
 
     this.ctx.save();
     this.ctx.strokeStyle = gridLineColor;
     this.ctx.lineWidth = 1;
 
-    // Vertical lines
-    let currentX = rowNumberWidth;
-    for (let col = 0; col <= columns.length; col++) {
-      const lineX = Math.round(currentX) - 0.5; // Align to pixel grid
-      // Check if the line is within the visible horizontal range
-      // Since the canvas is translated, compare against viewport origin (0) and width
-      if (lineX >= rowNumberWidth && lineX <= viewportWidth + scrollLeft) {
-        this.ctx.beginPath();
-        this.ctx.moveTo(lineX, headerHeight); // Start below header
-        this.ctx.lineTo(lineX, totalHeight + headerHeight); // Draw full logical height
-        this.ctx.stroke();
-      }
-      if (col < columns.length) {
-        currentX += columnWidths.get(col) || defaultColumnWidth;
-      }
-      // Optimization: Stop drawing if we've passed the right edge of the viewport
-      if (currentX > viewportWidth + scrollLeft) break;
+    // Vertical lines, on both sides of every column of the range
+    let currentX = this.dimensionCalculator.getColumnLeft(colStart);
+    for (let col = colStart; col <= colEnd + 1; col++) {
+      const lineX = this._alignX(currentX);
+      this.ctx.beginPath();
+      this.ctx.moveTo(lineX, headerHeight); // Start below header
+      this.ctx.lineTo(lineX, totalHeight + headerHeight); // Draw full logical height
+      this.ctx.stroke();
+      currentX += columnWidths.get(col) || defaultColumnWidth;
     }
 
-    // Horizontal lines
-    let currentY = headerHeight;
-    for (let row = 0; row <= dataLength; row++) {
-      const lineY = Math.round(currentY) - 0.5; // Align to pixel grid
-      // Check if the line is within the visible vertical range
-      // Since the canvas is translated, compare against viewport origin (0) and height
-      if (lineY >= headerHeight && lineY <= viewportHeight + scrollTop) {
-        this.ctx.beginPath();
-        this.ctx.moveTo(rowNumberWidth, lineY); // Start right of row numbers
-        this.ctx.lineTo(totalWidth + rowNumberWidth, lineY); // Draw full logical width
-        this.ctx.stroke();
-      }
-      if (row < dataLength) {
-        currentY += rowHeights.get(row) || defaultRowHeight;
-      }
-      // Optimization: Stop drawing if we've passed the bottom edge of the viewport
-      if (currentY > viewportHeight + scrollTop) break;
+    // Horizontal lines, above and below every row of the range
+    let currentY = this.dimensionCalculator.getRowTop(rowStart);
+    for (let row = rowStart; row <= rowEnd + 1; row++) {
+      const lineY = this._alignY(currentY);
+      this.ctx.beginPath();
+      this.ctx.moveTo(rowNumberWidth, lineY); // Start right of row numbers
+      this.ctx.lineTo(totalWidth + rowNumberWidth, lineY); // Draw full logical width
+      this.ctx.stroke();
+      currentY += rowHeights.get(row) || defaultRowHeight;
     }
 
     this.ctx.restore();
@@ -855,12 +1445,14 @@ export class Renderer {
     this.ctx.lineWidth = 2;
     this.ctx.setLineDash([4, 2]); // Dashed line
 
-    // Draw the rectangle relative to the translated context
+    // Draw the rectangle relative to the translated context, inside the cell edges
+    const left = this._alignX(viewportX + 1);
+    const top = this._alignY(viewportY + 1);
     this.ctx.strokeRect(
-      viewportX + 0.5, // Offset by 0.5 for sharp lines
-      viewportY + 0.5,
-      startColWidth - 1, // Adjust width/height to stay within lines
-      dragRangeHeight - 1
+      left,
+      top,
+      this._alignX(viewportX + startColWidth) - left,
+      this._alignY(viewportY + dragRangeHeight) - top
     );
 
     this.ctx.restore();
@@ -911,11 +1503,13 @@ export class Renderer {
     this.ctx.setLineDash(copyHighlightBorderDash);
 
     // Draw dashed border slightly inside bounds for better alignment
+    const left = this._alignX(highlightBounds.x + 1);
+    const top = this._alignY(highlightBounds.y + 1);
     this.ctx.strokeRect(
-      highlightBounds.x + 0.5,
-      highlightBounds.y + 0.5,
-      highlightBounds.width - 1,
-      highlightBounds.height - 1
+      left,
+      top,
+      this._alignX(highlightBounds.x + highlightBounds.width) - left,
+      this._alignY(highlightBounds.y + highlightBounds.height) - top
     );
 
     this.ctx.restore();
@@ -1170,6 +1764,51 @@ export class Renderer {
     return { x: viewportX, y: viewportY, width: cellWidth, height: cellHeight };
   }
 
+  /** Icons shown in a column header, from right to left */
+  public getHeaderIcons(colIndex: number): HeaderIcon[] {
+    const icons: HeaderIcon[] = [];
+    if (this.stateManager.isColumnSortable(colIndex)) icons.push("sort");
+    if (this.stateManager.isColumnFilterable(colIndex)) icons.push("filter");
+    return icons;
+  }
+
+  /** Returns the bounds of a header icon in CONTENT coordinates, null if the column has no such icon */
+  public getHeaderIconBounds(
+    colIndex: number,
+    icon: HeaderIcon
+  ): CellBounds | null {
+    const { headerHeight, headerIconSize, resizeHandleSize } = this.options;
+    const slot = this.getHeaderIcons(colIndex).indexOf(icon);
+    if (slot < 0) return null;
+    const colLeft = this.dimensionCalculator.getColumnLeft(colIndex);
+    const colWidth = this.stateManager.getColumnWidth(colIndex);
+    const labelTop = this.dimensionCalculator.getGroupHeaderHeight();
+    return {
+      x: colLeft + colWidth - resizeHandleSize - headerIconSize * (slot + 1),
+      y: labelTop + (headerHeight - labelTop - headerIconSize) / 2,
+      width: headerIconSize,
+      height: headerIconSize,
+    };
+  }
+
+  /**
+   * Returns the bounds of the collapse/expand toggle of a group header in
+   * CONTENT coordinates, null if the group has a single column
+   */
+  public getColumnGroupToggleBounds(span: ColumnGroupSpan): CellBounds | null {
+    if (span.group.columns.length < 2) return null;
+    const { headerIconSize, resizeHandleSize } = this.options;
+    const labelTop = this.dimensionCalculator.getGroupHeaderHeight();
+    const colLeft = this.dimensionCalculator.getColumnLeft(span.endCol);
+    const colWidth = this.stateManager.getColumnWidth(span.endCol);
+    return {
+      x: colLeft + colWidth - resizeHandleSize - headerIconSize,
+      y: (labelTop - headerIconSize) / 2,
+      width: headerIconSize,
+      height: headerIconSize,
+    };
+  }
+
   // --- Helper to get fill handle bounds in VIEWPORT coordinates ---
   public getFillHandleBounds(
     rowIndex: number,
@@ -1217,15 +1856,16 @@ export class Renderer {
       resizeRowBgAlphaBlend,
     } = this.options;
 
-    // Get scroll positions
-    const scrollLeft = this.stateManager.getScrollLeft();
-    const scrollTop = this.stateManager.getScrollTop();
+    const viewportWidth = this.stateManager.getViewportWidth();
+    const viewportHeight = this.stateManager.getViewportHeight();
 
-    // Clear the canvas
+    // Clear the canvas and draw the snapshot pixel for pixel. The snapshot is
+    // taken from the backing store, so it is in device pixels.
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
     this.ctx.clearRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
-
-    // Draw the snapshot
     this.ctx.drawImage(canvasSnapshot, 0, 0);
+    this.ctx.restore();
 
     // Save context
     this.ctx.save();
@@ -1238,14 +1878,18 @@ export class Renderer {
       // resize column
       // Calculate column position
       const columnLeft = this.dimensionCalculator.getColumnLeft(index);
+      // Frozen columns don't scroll
+      const scrollLeft = this.dimensionCalculator.isFrozenColumn(index)
+        ? 0
+        : this.stateManager.getScrollLeft();
 
       // Convert to viewport coordinates
-      const dividerX = columnLeft + newSize - scrollLeft - 0.5;
+      const dividerX = this._alignX(columnLeft + newSize - scrollLeft);
 
       // Draw the vertical divider line
       this.ctx.beginPath();
       this.ctx.moveTo(dividerX, 0);
-      this.ctx.lineTo(dividerX, this.ctx.canvas.height);
+      this.ctx.lineTo(dividerX, viewportHeight);
       this.ctx.stroke();
 
       if (resizeHeaderBgColor) {
@@ -1264,14 +1908,18 @@ export class Renderer {
       // resize row
       // Calculate row position
       const rowTop = this.dimensionCalculator.getRowTop(index);
+      // Frozen rows don't scroll
+      const scrollTop = this.dimensionCalculator.isFrozenRow(index)
+        ? 0
+        : this.stateManager.getScrollTop();
 
       // Convert to viewport coordinates
-      const dividerY = rowTop + newSize - scrollTop - 0.5;
+      const dividerY = this._alignY(rowTop + newSize - scrollTop);
 
       // Draw the horizontal divider line
       this.ctx.beginPath();
       this.ctx.moveTo(0, dividerY);
-      this.ctx.lineTo(this.ctx.canvas.width, dividerY);
+      this.ctx.lineTo(viewportWidth, dividerY);
       this.ctx.stroke();
 
       if (resizeRowBgColor) {
@@ -0,0 +1,88 @@
+/**
+ * Map of row heights or column widths by index that keeps a prefix-sum index
+ * (a Fenwick tree) of the differences to the default size. Offsets and hit
+ * tests are O(log n) and updating a single size doesn't rebuild anything.
+ * Indices without an entry have the default size.
+ */
+export class SizeMap extends Map<number, number> {
+  private defaultSize: number;
+  // tree[k] holds the sum of the deltas of the k & -k indices ending at k - 1
+  private tree: Float64Array = new Float64Array(1);
+  private capacity: number = 0; // always a power of two or 0
+
+  constructor(defaultSize: number) {
+    super();
+    this.defaultSize = defaultSize;
+  }
+
+  public set(index: number, size: number): this {
+    const previous = super.get(index);
+    this._ensureCapacity(index + 1);
+    super.set(index, size);
+    this._add(index, size - (previous ?? this.defaultSize));
+    return this;
+  }
+
+  public delete(index: number): boolean {
+    const previous = super.get(index);
+    if (previous === undefined) return false;
+    super.delete(index);
+    this._add(index, this.defaultSize - previous);
+    return true;
+  }
+
+  public clear(): void {
+    super.clear();
+    this.tree.fill(0);
+  }
+
+  /** Sum of the sizes of the indices before the given one */
+  public getOffset(index: number): number {
+    if (index <= 0) return 0;
+    let sum = index * this.defaultSize;
+    for (let k = Math.min(index, this.capacity); k > 0; k -= k & -k) {
+      sum += this.tree[k];
+    }
+    return sum;
+  }
+
+  /**
+   * Index whose extent contains the offset, i.e. the largest index with
+   * getOffset(index) <= offset. -1 for negative offsets. The caller checks
+   * the result against the row or column count.
+   */
+  public findIndex(offset: number): number {
+    if (offset < 0) return -1;
+    let index = 0;
+    let remaining = offset;
+    // descend the tree, each node at index + step covers `step` indices
+    for (let step = this.capacity; step > 0; step >>= 1) {
+      const span = this.tree[index + step] + step * this.defaultSize;
+      if (span <= remaining) {
+        index += step;
+        remaining -= span;
+      }
+    }
+    if (index === this.capacity) {
+      // all indices past the tree have the default size
+      index += Math.floor(remaining / this.defaultSize);
+    }
+    return index;
+  }
+
+  private _add(index: number, delta: number): void {
+    if (!delta || index < 0) return;
+    for (let k = index + 1; k <= this.capacity; k += k & -k) {
+      this.tree[k] += delta;
+    }
+  }
+
+  private _ensureCapacity(size: number): void {
+    if (size <= this.capacity) return;
+    let capacity = Math.max(this.capacity, 64);
+    while (capacity < size) capacity *= 2;
+    this.capacity = capacity;
+    this.tree = new Float64Array(capacity + 1);
+    this.forEach((value, index) => this._add(index, value - this.defaultSize));
+  }
+}
@@ -4,27 +4,83 @@ import {
   RequiredSpreadsheetOptions,
   CellCoords,
   ActiveEditorState,
+  CellStyle,
+  ColumnGroup,
+  ColumnGroupSpan,
+  ColumnDragState,
   DragState,
   ResizeColumnState,
   ResizeRowState,
+  RowDragState,
   DataType,
   ColumnSchema,
   CellUpdateEvent,
   ValidationError,
   SelectOption,
+  SortState,
+  ColumnFilter,
+  ConditionalFormatRule,
 } from "./types";
-import { DISABLED_FIELD_PREFIX, ERROR_FIELD_PREFIX } from "./config";
-import { log, validateInput } from "./utils";
-
+import {
+  DISABLED_FIELD_PREFIX,
+  ERROR_FIELD_PREFIX,
+  FORMULA_ERROR_FIELD_PREFIX,
+  ROW_STYLE_FIELD,
+  STYLE_FIELD_PREFIX,
+} from "./config";
+import {
+  compareSortValues,
+  getSortValue,
+  indexAfterInsert,
+  indexAfterRemove,
+  isBlankValue,
+  log,
+  matchesFilter,
+  validateInput,
+} from "./utils";
+import {
+  HistoryApplyResult,
+  HistoryEntry,
+  HistoryManager,
+} from "./history-manager";
+import { FormulaEngine } from "./formula-engine";
+import { SizeMap } from "./size-map";
+
+/**
+ * Row indices are view indices (the order rows are displayed in) unless
+ * the method name says otherwise. The data array keeps its original order,
+ * so data indices are what the public API and the callbacks use.
+ */
 export class StateManager {
   private schema: SpreadsheetSchema;
-  private columns: string[]; // Ordered list of column keys
+  private columns: string[]; // Ordered list of the displayed column keys
+  private columnOrder: string[]; // All column keys in order, including hidden columns
   private data: DataRow[];
   private options: RequiredSpreadsheetOptions;
 
+  // --- View State ---
+  private viewRows: number[] | null = null; // view index -> data index, null when it is the data order
+  private viewIndexByDataRow: number[] | null = null; // data index -> view index
+  private sortState: SortState | null = null;
+  private filters: Map<string, ColumnFilter> = new Map();
+  // heights of the rows hidden by the filters, by data index
+  private hiddenRowHeights: Map<number, number> = new Map();
+  private hiddenUserResizedRows: Map<number, boolean> = new Map();
+  // data rows to measure on the next auto resize, null when all rows are dirty
+  private dirtyRowHeights: Set<number> | null = null;
+
   // --- Core State ---
-  private columnWidths: Map<number, number> = new Map();
-  private rowHeights: Map<number, number> = new Map(); // Track auto-resized row heights
+  private columnWidths: SizeMap;
+  private hiddenColumnWidths: Map<string, number> = new Map(); // by column key
+  private hiddenColumnsBefore: Map<number, string[]> = new Map(); // by column index
+  private columnGroups: ColumnGroup[] = [];
+  private columnGroupByKey: Map<string, ColumnGroup> = new Map(); // by column key
+  private columnGroupSpans: ColumnGroupSpan[] = [];
+  private conditionalFormats: ConditionalFormatRule[];
+  // computed cell styles by column key, dropped when their row changes
+  private cellStyleCache: WeakMap<DataRow, Map<string, CellStyle | null>> =
+    new WeakMap();
+  private rowHeights: SizeMap; // Track auto-resized row heights
   private userResizedRows: Map<number, boolean> = new Map(); // Track rows resized by the user
   private scrollTop: number = 0;
   private scrollLeft: number = 0;
@@ -53,6 +109,7 @@ export class StateManager {
   private copiedRangeData: any[][] | null = null; // For multi-cell copy
   private copiedSourceRange: { start: CellCoords; end: CellCoords } | null =
     null; // Source range of multi-cell copy
+  private copyIsCut = false; // The copied cells are moved (cleared) on paste
   private dragState: DragState = {
     isDragging: false,
     startCell: null,
@@ -68,7 +125,22 @@ export class StateManager {
     rowIndex: null,
     startY: null,
   };
+  private rowDragState: RowDragState = {
+    isDragging: false,
+    startY: null,
+    targetRow: null,
+  };
+  private columnDragState: ColumnDragState = {
+    isDragging: false,
+    colIndex: null,
+    startX: null,
+    grabOffset: 0,
+    currentX: null,
+    targetCol: null,
+  };
   private asyncOperationCounter = -1;
+  private history: HistoryManager;
+  private formulaEngine: FormulaEngine = new FormulaEngine();
 
   public cachedDropdownOptionsByColumn: Map<
     string,
@@ -77,18 +149,38 @@ export class StateManager {
 
   constructor(schema: SpreadsheetSchema, options: RequiredSpreadsheetOptions) {
     this.options = options;
+    this.columnWidths = new SizeMap(options.defaultColumnWidth);
+    this.rowHeights = new SizeMap(options.defaultRowHeight);
+    this.history = new HistoryManager(options.historySize);
+    this.conditionalFormats = [...options.conditionalFormats];
     this.data = [];
     // Initialize schema and columns
     this.schema = schema;
-    this.columns = Object.keys(schema);
+    this.columnOrder = Object.keys(schema);
+    this.columns = [];
+    this._setColumnGroupsInternal(options.columnGroups);
+    this._setColumns(this._getVisibleColumns());
     this._addCachedDropdownOptions();
+    this.formulaEngine.setSchema(schema);
   }
 
   public setSchema(schema: SpreadsheetSchema): void {
     this.schema = schema;
-    this.columns = Object.keys(schema);
-    this.columnWidths = new Map();
+    this.columnOrder = Object.keys(schema);
+    this.columnWidths = new SizeMap(this.options.defaultColumnWidth);
+    this.hiddenColumnWidths = new Map();
+    this._setColumns(this._getVisibleColumns());
+    this.clearCellStyles();
+    this.history.clear();
     this._addCachedDropdownOptions();
+    if (this.sortState && !this.schema[this.sortState.colKey]) {
+      this.sortState = null;
+    }
+    this.filters.forEach((_, colKey) => {
+      if (!this.schema[colKey]) this.filters.delete(colKey);
+    });
+    this._updateFormulaColumns();
+    this.refreshView();
   }
 
   public addCachedDropdownOptionForColumn(
@@ -124,12 +216,20 @@ export class StateManager {
   public setInitialData(data: DataRow[]): void {
     // Deep copy data to prevent external modification issues
     this.data = JSON.parse(JSON.stringify(data || []));
+    this.history.clear();
+    this._recalculateAllFormulas();
     this._updateAllDisabledStates();
+    this.refreshView();
     // Initial size calculation will be done by DimensionCalculator
   }
 
   // --- Data Access / Modification ---
+  /** Number of rows in the view */
   public get dataLength(): number {
+    return this.viewRows ? this.viewRows.length : this.data.length;
+  }
+  /** Number of rows in the data, including rows outside of the view */
+  public get totalDataLength(): number {
     return this.data.length;
   }
   public getData(raw = false): DataRow[] {
@@ -151,10 +251,16 @@ export class StateManager {
   public setData(newData: DataRow[]): void {
     // Used by the public API, performs deep copy and updates disabled states
     this.data = JSON.parse(JSON.stringify(newData || []));
-    this.rowHeights = new Map(); // Reset row heights
+    // Reset row heights
+    this.rowHeights = new SizeMap(this.options.defaultRowHeight);
     this.userResizedRows = new Map(); // Reset user-resized rows tracking
+    this.hiddenRowHeights = new Map();
+    this.hiddenUserResizedRows = new Map();
+    this.history.clear(); // Row indices of the history are no longer valid
+    this._recalculateAllFormulas();
     this._updateAllDisabledStates();
     this.resetInteractionState();
+    this.refreshView(); // keep the current sort and filters for the new data
     // Recalculation of sizes, dimensions, and redraw is handled by Spreadsheet class
   }
 
@@ -166,6 +272,10 @@ export class StateManager {
     if (schema.values) {
       this.addCachedDropdownOptionForColumn(colKey, schema.values);
     }
+    // the column may be hidden or shown
+    this._setColumns(this._getVisibleColumns());
+    this.clearCellStyles();
+    this._updateFormulaColumns();
     this._updateAllDisabledStates();
     this.resetInteractionState();
   }
@@ -189,12 +299,8 @@ export class StateManager {
     colIndex: number,
     value: any
   ): any {
-    if (
-      rowIndex < 0 ||
-      rowIndex >= this.data.length ||
-      colIndex < 0 ||
-      colIndex >= this.columns.length
-    ) {
+    const dataRowIndex = this.getDataRowIndex(rowIndex);
+    if (dataRowIndex < 0 || colIndex < 0 || colIndex >= this.columns.length) {
       log(
         "warn",
         this.options.verbose,
@@ -203,11 +309,14 @@ export class StateManager {
       return;
     }
     const colKey = this.columns[colIndex];
-    if (!this.data[rowIndex]) {
-      this.data[rowIndex] = {};
+    if (!this.data[dataRowIndex]) {
+      this.data[dataRowIndex] = {};
     }
-    const oldValue = this.data[rowIndex][colKey];
-    this.data[rowIndex][colKey] = value;
+    const oldValue = this.data[dataRowIndex][colKey];
+    this.data[dataRowIndex][colKey] = value;
+    this._invalidateCellStyles(dataRowIndex);
+    this._recordCellChange(dataRowIndex, colKey, oldValue, value);
+    this._recalculateFormulas(dataRowIndex, [colKey]);
     // Disabled state update should happen *after* the value change
     // this.updateDisabledStatesForRow(rowIndex); // Called separately after update
     return oldValue;
@@ -219,6 +328,21 @@ export class StateManager {
     colKey: string,
     value: any,
     throwError: boolean = false
+  ): boolean {
+    return this.updateDataCell(
+      this.getDataRowIndex(rowIndex),
+      colKey,
+      value,
+      throwError
+    );
+  }
+
+  /** Same as updateCell, but takes a data index so rows outside of the view can be updated */
+  public updateDataCell(
+    rowIndex: number,
+    colKey: string,
+    value: any,
+    throwError: boolean = false
   ): boolean {
     if (rowIndex < 0 || rowIndex >= this.data.length) {
       log(
@@ -229,11 +353,17 @@ export class StateManager {
       return false;
     }
     if (colKey.includes(":")) {
+      this._recordCellChange(
+        rowIndex,
+        colKey,
+        this.data[rowIndex][colKey],
+        value
+      );
       this.data[rowIndex][colKey] = value; // No validation for custom fields
+      this._invalidateCellStyles(rowIndex);
       return true; // update occurred
     }
-    const colIndex = this.columns.indexOf(colKey);
-    if (colIndex < 0) {
+    if (!this.columnOrder.includes(colKey)) {
       log(
         "warn",
         this.options.verbose,
@@ -241,6 +371,14 @@ export class StateManager {
       );
       return false;
     }
+    if (this.formulaEngine.isFormulaColumn(colKey)) {
+      log(
+        "warn",
+        this.options.verbose,
+        `updateCell: ${colKey} is a formula column, its values are computed.`
+      );
+      return false;
+    }
     const schemaCol = this.schema[colKey];
     const validationResult = validateInput(
       value,
@@ -272,11 +410,19 @@ export class StateManager {
         this.data[rowIndex] = {};
       }
       if (!colKey.includes(":")) {
-        this.removeCellValue(rowIndex, `${ERROR_FIELD_PREFIX}${colKey}`);
+        this.removeDataCellValue(rowIndex, `${ERROR_FIELD_PREFIX}${colKey}`);
       }
       if (this.data[rowIndex][colKey] !== value) {
+        this._recordCellChange(
+          rowIndex,
+          colKey,
+          this.data[rowIndex][colKey],
+          value
+        );
         this.data[rowIndex][colKey] = value;
-        this.updateDisabledStatesForRow(rowIndex); // Update disabled states after change
+        this._invalidateCellStyles(rowIndex);
+        this._recalculateFormulas(rowIndex, [colKey]);
+        this._updateDisabledStatesForDataRow(rowIndex); // Update disabled states after change
         return true; // Indicate that an update occurred
       }
     }
@@ -284,6 +430,11 @@ export class StateManager {
   }
 
   public removeCellValue(rowIndex: number, colKey: string): boolean {
+    return this.removeDataCellValue(this.getDataRowIndex(rowIndex), colKey);
+  }
+
+  /** Same as removeCellValue, but takes a data index */
+  public removeDataCellValue(rowIndex: number, colKey: string): boolean {
     if (rowIndex < 0 || rowIndex >= this.data.length) {
       log(
         "warn",
@@ -292,41 +443,85 @@ export class StateManager {
       );
       return false;
     }
+    if (this.formulaEngine.isFormulaColumn(colKey)) {
+      log(
+        "warn",
+        this.options.verbose,
+        `removeCellValue: ${colKey} is a formula column, its values are computed.`
+      );
+      return false;
+    }
     const value = this.data[rowIndex]?.[colKey];
+    if (this.data[rowIndex] && colKey in this.data[rowIndex]) {
+      this._recordCellChange(rowIndex, colKey, value, undefined);
+    }
     delete this.data[rowIndex][colKey];
+    this._invalidateCellStyles(rowIndex);
+    if (!colKey.includes(":")) {
+      this._recalculateFormulas(rowIndex, [colKey]);
+    }
     return !!value;
   }
 
   public getCellData(rowIndex: number, colIndex: number): any {
-    if (
-      rowIndex < 0 ||
-      rowIndex >= this.data.length ||
-      colIndex < 0 ||
-      colIndex >= this.columns.length
-    ) {
+    const dataRowIndex = this.getDataRowIndex(rowIndex);
+    if (dataRowIndex < 0 || colIndex < 0 || colIndex >= this.columns.length) {
       return undefined;
     }
     const colKey = this.columns[colIndex];
-    return this.data[rowIndex]?.[colKey];
+    return this.data[dataRowIndex]?.[colKey];
   }
 
   public getRowData(rowIndex: number): DataRow | undefined {
+    const dataRowIndex = this.getDataRowIndex(rowIndex);
+    return dataRowIndex < 0 ? undefined : this.data[dataRowIndex];
+  }
+
+  /** Same as getRowData, but takes a data index */
+  public getDataRow(rowIndex: number): DataRow | undefined {
     return this.data[rowIndex];
   }
 
   public deleteRows(rowsToDelete: number[]): number {
+    // heights are stored by view index, the data by data index
+    const viewRowByDataRow = new Map<number, number>();
+    for (const rowIndex of rowsToDelete) {
+      const dataRowIndex = this.getDataRowIndex(rowIndex);
+      if (dataRowIndex >= 0) viewRowByDataRow.set(dataRowIndex, rowIndex);
+    }
+    if (this.history.isRecording) {
+      const rows = [...viewRowByDataRow.keys()]
+        .sort((a, b) => a - b)
+        .map((rowIndex) => ({
+          rowIndex,
+          data: this.data[rowIndex],
+          height: this.rowHeights.get(viewRowByDataRow.get(rowIndex)!),
+          userResized: this.userResizedRows.get(
+            viewRowByDataRow.get(rowIndex)!
+          ),
+        }));
+      if (rows.length) {
+        this.history.record({ type: "deleteRows", rows });
+      }
+    }
     let deletedCount = 0;
     // Sort descending to avoid index issues during splicing
-    const sortedRows = rowsToDelete.sort((a, b) => b - a);
+    const sortedRows = [...viewRowByDataRow.keys()].sort((a, b) => b - a);
     sortedRows.forEach((rowIndex) => {
-      if (rowIndex >= 0 && rowIndex < this.data.length) {
-        this.data.splice(rowIndex, 1);
-        // Also remove corresponding height entry
-        this.rowHeights.delete(rowIndex);
-        deletedCount++;
-      }
+      this.data.splice(rowIndex, 1);
+      deletedCount++;
     });
     if (deletedCount > 0) {
+      // the heights of the following rows move up with them
+      const removedViewRows = [...viewRowByDataRow.values()].sort(
+        (a, b) => a - b
+      );
+      this._removeRowLayout(removedViewRows);
+      this._removeDataRowsFromView(sortedRows);
+      const removedDataRows = [...sortedRows].reverse();
+      this._shiftDirtyRowHeights((dataRowIndex) =>
+        indexAfterRemove(dataRowIndex, removedDataRows)
+      );
       this._updateAllDisabledStates(); // Re-evaluate disabled states if necessary
     }
     return deletedCount;
@@ -341,6 +536,11 @@ export class StateManager {
     return this.columns;
   }
 
+  /** All column keys in order, including the hidden columns */
+  public getColumnOrder(): string[] {
+    return this.columnOrder;
+  }
+
   public getColumnKey(colIndex: number): string {
     return this.columns[colIndex];
   }
@@ -351,7 +551,7 @@ export class StateManager {
   }
 
   // --- Dimensions and Sizing ---
-  public getColumnWidths(): Map<number, number> {
+  public getColumnWidths(): SizeMap {
     return this.columnWidths;
   }
 
@@ -375,27 +575,15 @@ export class StateManager {
   }
 
   public getTotalColumnWidth(): number {
-    const defaultWidth = this.options.defaultColumnWidth;
-    let totalWidth = this.columns.length * defaultWidth;
-    // forEach on map iterates over the values
-    this.columnWidths.forEach((width) => {
-      totalWidth += width - defaultWidth;
-    });
-    return totalWidth;
+    return this.columnWidths.getOffset(this.columns.length);
   }
 
-  public getRowHeights(): Map<number, number> {
+  public getRowHeights(): SizeMap {
     return this.rowHeights;
   }
 
   public getTotalRowHeight(): number {
-    const defaultHeight = this.options.defaultRowHeight;
-    let totalHeight = this.data.length * defaultHeight;
-    // forEach on map iterates over the values
-    this.rowHeights.forEach((height) => {
-      totalHeight += height - defaultHeight;
-    });
-    return totalHeight;
+    return this.rowHeights.getOffset(this.dataLength);
   }
 
   /**
@@ -536,9 +724,9 @@ export class StateManager {
       setTimeout(() => {
         try {
           this.options.onCellSelected!({
-            rowIndex: coords?.row!,
+            rowIndex: this.getDataRowIndex(coords?.row!),
             colKey: this.getColumnKey(coords?.col!),
-            rowData: this.data[coords?.row!], // TODO: sending by reference, not a deep copy
+            rowData: this.getRowData(coords?.row!)!, // TODO: sending by reference, not a deep copy
           });
         } catch (_error) {
           // Ignore errors in onCellSelected callback
@@ -636,7 +824,9 @@ export class StateManager {
     this.copiedCell = cell;
     this.copiedRangeData = null; // Clear range data
     this.copiedSourceRange = null; // Clear source range
-    return cellChanged || rangeCleared || sourceRangeCleared;
+    const cutCleared = this.copyIsCut;
+    this.copyIsCut = false;
+    return cellChanged || rangeCleared || sourceRangeCleared || cutCleared;
   }
 
   /** Sets the copied range data and source. Clears any single copied cell. Returns true if state changed. */
@@ -654,7 +844,9 @@ export class StateManager {
     this.copiedValue = undefined;
     this.copiedValueType = undefined;
     this.copiedCell = null; // Clear single cell data
-    return rangeDataChanged || sourceRangeChanged || cellCleared;
+    const cutCleared = this.copyIsCut;
+    this.copyIsCut = false;
+    return rangeDataChanged || sourceRangeChanged || cellCleared || cutCleared;
   }
 
   public getCopiedRangeData(): any[][] | null {
@@ -670,6 +862,18 @@ export class StateManager {
     return this.copiedCell !== null || this.copiedRangeData !== null;
   }
 
+  /** Returns true if the copied cells were cut, i.e. they are cleared on paste */
+  public isCutActive(): boolean {
+    return this.copyIsCut;
+  }
+
+  /** Marks the current copy as a cut. Returns true if state changed. */
+  public setCutActive(isCut: boolean): boolean {
+    const changed = this.copyIsCut !== isCut;
+    this.copyIsCut = isCut;
+    return changed;
+  }
+
   /** Clears all copy state (single cell and range). Returns true if state changed. */
   public clearCopyState(): boolean {
     const cellCleared = this.setCopiedValue(undefined, undefined, null);
@@ -718,6 +922,30 @@ export class StateManager {
     return this.resizeColumnState.isResizing || this.resizeRowState.isResizing;
   }
 
+  public getRowDragState(): RowDragState {
+    return this.rowDragState;
+  }
+
+  public setRowDragState(state: RowDragState): void {
+    this.rowDragState = state;
+  }
+
+  public isDraggingRows(): boolean {
+    return this.rowDragState.isDragging;
+  }
+
+  public getColumnDragState(): ColumnDragState {
+    return this.columnDragState;
+  }
+
+  public setColumnDragState(state: ColumnDragState): void {
+    this.columnDragState = state;
+  }
+
+  public isDraggingColumn(): boolean {
+    return this.columnDragState.isDragging;
+  }
+
   public resetInteractionState(): void {
     this.activeCell = null;
     this.selectionStartCell = null;
@@ -732,6 +960,7 @@ export class StateManager {
     this.copiedCell = null;
     this.copiedRangeData = null;
     this.copiedSourceRange = null;
+    this.copyIsCut = false;
     this.dragState = { isDragging: false, startCell: null, endRow: null };
     this.resizeColumnState = {
       isResizing: false,
@@ -739,32 +968,43 @@ export class StateManager {
       startX: null,
     };
     this.resizeRowState = { isResizing: false, rowIndex: null, startY: null };
+    this.rowDragState = { isDragging: false, startY: null, targetRow: null };
+    this.columnDragState = {
+      isDragging: false,
+      colIndex: null,
+      startX: null,
+      grabOffset: 0,
+      currentX: null,
+      targetCol: null,
+    };
   }
 
   // --- Cell Disabling Logic ---
   public isCellDisabled(rowIndex: number, colIndex: number): boolean {
-    if (
-      rowIndex < 0 ||
-      rowIndex >= this.data.length ||
-      colIndex < 0 ||
-      colIndex >= this.columns.length
-    ) {
+    const dataRowIndex = this.getDataRowIndex(rowIndex);
+    if (dataRowIndex < 0 || colIndex < 0 || colIndex >= this.columns.length) {
       return true; // Out of bounds is considered disabled
     }
     const colKey = this.columns[colIndex];
-    const rowData = this.data[rowIndex];
+    // Formula columns are computed, so they can't be edited
+    if (this.formulaEngine.isFormulaColumn(colKey)) return true;
+    const rowData = this.data[dataRowIndex];
     // Check the pre-calculated disabled field first
     return !!rowData?.[`${DISABLED_FIELD_PREFIX}${colKey}`];
   }
 
   /** Updates the internal disabled state fields for a specific row based on the isCellDisabled callback */
   public updateDisabledStatesForRow(rowIndex: number): boolean {
+    return this._updateDisabledStatesForDataRow(this.getDataRowIndex(rowIndex));
+  }
+
+  private _updateDisabledStatesForDataRow(rowIndex: number): boolean {
     if (rowIndex < 0 || rowIndex >= this.data.length) return false;
     const rowData = this.data[rowIndex];
     if (!rowData) return false;
 
     let changed = false;
-    this.columns.forEach((colKey) => {
+    this.columnOrder.forEach((colKey) => {
       const disabledKey = `${DISABLED_FIELD_PREFIX}${colKey}`;
       const currentDisabledState = !!rowData[disabledKey];
       // Use the user-provided function to determine the new state
@@ -783,6 +1023,21 @@ export class StateManager {
   }
 
   public callOnCellsUpdate(rows: CellUpdateEvent[]): void {
+    // formula columns recalculated because of the change are part of the same update
+    for (const row of rows) {
+      const formulaKeys = this.formulaEngine
+        .getDependentColumns(row.columnKeys)
+        .filter((colKey) => !row.columnKeys.includes(colKey));
+      if (!formulaKeys.length) continue;
+      // the old formula values are evaluated from the old values of the inputs
+      const oldData = row.oldData;
+      if (oldData && row.columnKeys.every((colKey) => colKey in oldData)) {
+        const oldRow: DataRow = { ...row.data, ...oldData };
+        formulaKeys.forEach((colKey) => this._evaluateFormula(oldRow, colKey));
+        formulaKeys.forEach((colKey) => (oldData[colKey] = oldRow[colKey]));
+      }
+      row.columnKeys = [...row.columnKeys, ...formulaKeys];
+    }
     this.options.onCellsUpdate?.(rows);
   }
 
@@ -790,7 +1045,7 @@ export class StateManager {
   private _updateAllDisabledStates(): void {
     log("log", this.options.verbose, "Updating all disabled states...");
     for (let rowIndex = 0; rowIndex < this.data.length; rowIndex++) {
-      this.updateDisabledStatesForRow(rowIndex);
+      this._updateDisabledStatesForDataRow(rowIndex);
     }
     log("log", this.options.verbose, "Finished updating all disabled states.");
   }
@@ -878,11 +1133,112 @@ export class StateManager {
   }
 
   public addRow(): number {
-    // Create an empty row based on the schema
+    const newRow = this._createDefaultRow();
+
+    // Add the new row to the data array
+    this.data.push(newRow);
+
+    // Update formulas and disabled states for the new row
+    const newDataRowIndex = this.data.length - 1;
+    this._recalculateFormulas(newDataRowIndex);
+    this._updateDisabledStatesForDataRow(newDataRowIndex);
+
+    // New rows are appended to the end of the view, even when it is sorted
+    if (this.viewRows && this.viewIndexByDataRow) {
+      this.viewRows.push(newDataRowIndex);
+      this.viewIndexByDataRow[newDataRowIndex] = this.viewRows.length - 1;
+    }
+
+    // Return the view index of the newly added row
+    return this.dataLength - 1;
+  }
+
+  /**
+   * Inserts rows before a data row, filled with the schema defaults and the given values.
+   * In a sorted or filtered view they are shown before `viewRowIndex`, by default before
+   * the row they were inserted before. Heights and the selection move with the rows.
+   * @returns The inserted rows
+   */
+  public insertRows(
+    dataRowIndex: number,
+    values: DataRow[],
+    viewRowIndex?: number
+  ): DataRow[] {
+    if (!values.length) return [];
+    dataRowIndex = Math.max(0, Math.min(dataRowIndex, this.data.length));
+    if (viewRowIndex === undefined) {
+      const rowIndex = this.getViewRowIndex(dataRowIndex);
+      viewRowIndex = rowIndex >= 0 ? rowIndex : this.dataLength;
+    }
+    const rows = values.map((value) => ({
+      ...this._createDefaultRow(),
+      ...JSON.parse(JSON.stringify(value || {})),
+    }));
+    this.data.splice(dataRowIndex, 0, ...rows);
+    rows.forEach((_, index) => {
+      this._recalculateFormulas(dataRowIndex + index);
+      this._updateDisabledStatesForDataRow(dataRowIndex + index);
+    });
+    this._insertDataRowsIntoView(dataRowIndex, rows.length, viewRowIndex);
+    const insertedDataRows = rows.map((_, index) => dataRowIndex + index);
+    this._shiftDirtyRowHeights((index) =>
+      indexAfterInsert(index, insertedDataRows)
+    );
+    if (this.history.isRecording) {
+      this.history.record({ type: "insertRows", rowIndex: dataRowIndex, rows });
+    }
+    return rows;
+  }
+
+  /**
+   * Moves rows so they are shown before the view row `targetRowIndex`, keeping their
+   * order. The rows move in the data, heights and the selection move with them.
+   * Not possible in a sorted view, where the sort decides the order.
+   * @param rowIndices View indices of the rows to move
+   * @returns The data indices of the moved rows before and after the move, null if nothing moved
+   */
+  public moveRows(
+    rowIndices: number[],
+    targetRowIndex: number
+  ): { from: number[]; to: number[] } | null {
+    if (this.sortState) return null;
+    const rows = [...new Set(rowIndices)]
+      .map((rowIndex) => this.getDataRowIndex(rowIndex))
+      .filter((dataRowIndex) => dataRowIndex >= 0)
+      .sort((a, b) => a - b);
+    if (!rows.length) return null;
+    const movedRows = new Set(rows);
+    // the rows go before the first row at or after the target that stays in place
+    let anchor = this.data.length;
+    for (
+      let rowIndex = Math.max(0, targetRowIndex);
+      rowIndex < this.dataLength;
+      rowIndex++
+    ) {
+      const dataRowIndex = this.getDataRowIndex(rowIndex);
+      if (!movedRows.has(dataRowIndex)) {
+        anchor = dataRowIndex;
+        break;
+      }
+    }
+    const rowIndex = anchor - rows.filter((index) => index < anchor).length;
+    const order = this._getMoveOrder(rows, rowIndex);
+    if (order.every((dataRowIndex, index) => dataRowIndex === index)) {
+      return null;
+    }
+    this._reorderDataRows(order);
+    if (this.history.isRecording) {
+      this.history.record({ type: "moveRows", rows, rowIndex });
+    }
+    return { from: rows, to: rows.map((_, index) => rowIndex + index) };
+  }
+
+  /** Creates an empty row with the default values of the schema */
+  private _createDefaultRow(): DataRow {
     const newRow: DataRow = {};
 
     // Initialize each column with default values based on data type
-    this.columns.forEach((colKey) => {
+    this.columnOrder.forEach((colKey) => {
       if (colKey.includes(DISABLED_FIELD_PREFIX)) {
         return;
       }
@@ -913,40 +1269,980 @@ export class StateManager {
 
       newRow[colKey] = defaultValue;
     });
-
-    // Add the new row to the data array
-    this.data.push(newRow);
-
-    // Update disabled states for the new row
-    const newRowIndex = this.data.length - 1;
-    this.updateDisabledStatesForRow(newRowIndex);
-
-    // Return the index of the newly added row
-    return newRowIndex;
+    return newRow;
   }
 
   public addColumn(fieldName: string, colSchema: ColumnSchema): number {
     if (this.schema[fieldName]) {
       throw new Error(`Column ${fieldName} already exists`);
     }
-    const newColIndex = this.columns.length;
-    this.columns.push(fieldName);
+    this.columnOrder.push(fieldName);
     // No need to store default column width
     this.schema[fieldName] = colSchema;
+    this.clearCellStyles();
+    if (!colSchema.hidden && !this._isCollapsedColumn(fieldName)) {
+      this.columns.push(fieldName);
+    }
+    this.hiddenColumnsBefore = this._getHiddenColumnsBefore();
+    this.columnGroupSpans = this._getColumnGroupSpans();
+    const newColIndex = this.columns.indexOf(fieldName); // -1 if hidden
     this.addCachedDropdownOptionForColumn(fieldName);
+    this._updateFormulaColumns();
     return newColIndex;
   }
 
   public removeColumn(colIndex: number): void {
     const colKey = this.columns[colIndex];
+    if (colKey) this.removeColumnByKey(colKey);
+  }
+
+  /** Same as removeColumn, but also removes hidden and collapsed columns */
+  public removeColumnByKey(colKey: string): void {
+    if (!this.columnOrder.includes(colKey)) return;
+    if (this.history.isRecording) {
+      const colIndex = this.columns.indexOf(colKey);
+      const fields = new Map<number, Record<string, any>>();
+      this.data.forEach((row, rowIndex) => {
+        const rowFields: Record<string, any> = {};
+        let hasFields = false;
+        for (const key in row) {
+          if (key === colKey || key.endsWith(`:${colKey}`)) {
+            rowFields[key] = row[key];
+            hasFields = true;
+          }
+        }
+        if (hasFields) fields.set(rowIndex, rowFields);
+      });
+      this.history.record({
+        type: "removeColumn",
+        orderIndex: this.columnOrder.indexOf(colKey),
+        colKey,
+        schema: this.schema[colKey],
+        width:
+          colIndex >= 0
+            ? this.columnWidths.get(colIndex)
+            : this.hiddenColumnWidths.get(colKey),
+        cachedOptions: this.cachedDropdownOptionsByColumn.get(colKey),
+        fields,
+      });
+    }
+    const viewChanged = this._removeColumnInternal(colKey);
+    this._updateFormulaColumns(); // formulas using the column can no longer be computed
+    if (viewChanged) {
+      this.refreshView();
+    }
+  }
+
+  /**
+   * Changes the display order of the columns. Unknown keys are ignored and the
+   * columns missing from the order keep their relative order after the given ones.
+   * Widths, the active cell and the selected column move with their columns.
+   * @returns True if the order changed
+   */
+  public setColumnOrder(order: string[]): boolean {
+    const columns = this._completeColumnOrder(order);
+    if (columns.every((colKey, index) => colKey === this.columnOrder[index])) {
+      return false;
+    }
+    if (this.history.isRecording) {
+      this.history.record({
+        type: "columnOrder",
+        oldOrder: [...this.columnOrder],
+        newOrder: columns,
+      });
+    }
+    this._setColumnOrderInternal(columns);
+    return true;
+  }
+
+  /** The current columns in the given order, the missing ones at the end */
+  private _completeColumnOrder(order: string[]): string[] {
+    const columns = [...new Set(order)].filter((colKey) => this.schema[colKey]);
+    const ordered = new Set(columns);
+    columns.push(...this.columnOrder.filter((colKey) => !ordered.has(colKey)));
+    return columns;
+  }
+
+  private _setColumnOrderInternal(columnOrder: string[]): void {
+    this.columnOrder = columnOrder;
+    this._setColumns(this._getVisibleColumns());
+  }
+
+  /**
+   * Hides or shows a column. Hidden columns keep their data, width and place in
+   * the column order, but are not drawn, navigated to, copied or pasted into.
+   * @returns True if the column was hidden or shown
+   */
+  public setColumnHidden(colKey: string, hidden: boolean): boolean {
+    const schemaCol = this.schema[colKey];
+    if (!schemaCol || !!schemaCol.hidden === hidden) return false;
+    this.schema[colKey] = { ...schemaCol, hidden };
+    this._setColumns(this._getVisibleColumns());
+    return true;
+  }
+
+  /**
+   * Keys of the hidden columns between a column and the one before it,
+   * for the column count the hidden columns after the last column
+   */
+  public getHiddenColumnsBefore(colIndex: number): string[] {
+    return this.hiddenColumnsBefore.get(colIndex) ?? [];
+  }
+
+  // --- Column Groups ---
+  public getColumnGroups(): ColumnGroup[] {
+    return this.columnGroups;
+  }
+
+  /**
+   * Replaces the column groups. A column belongs to the first group that lists
+   * it, unknown column keys are ignored.
+   */
+  public setColumnGroups(groups: ColumnGroup[]): void {
+    this._setColumnGroupsInternal(groups);
+    this._setColumns(this._getVisibleColumns());
+  }
+
+  private _setColumnGroupsInternal(groups: ColumnGroup[]): void {
+    this.columnGroups = groups.map((group) => ({
+      ...group,
+      columns: [...group.columns],
+    }));
+    this.columnGroupByKey = new Map();
+    this.columnGroups.forEach((group) => {
+      group.columns.forEach((colKey) => {
+        if (!this.columnGroupByKey.has(colKey)) {
+          this.columnGroupByKey.set(colKey, group);
+        }
+      });
+    });
+  }
+
+  public getColumnGroup(groupKey: string): ColumnGroup | null {
+    return this.columnGroups.find((group) => group.key === groupKey) ?? null;
+  }
+
+  /**
+   * Collapses a group to its summary column or expands it again.
+   * @returns True if the group was collapsed or expanded
+   */
+  public setColumnGroupCollapsed(
+    groupKey: string,
+    collapsed: boolean
+  ): boolean {
+    const group = this.getColumnGroup(groupKey);
+    if (!group || !!group.collapsed === collapsed) return false;
+    group.collapsed = collapsed;
+    this._setColumns(this._getVisibleColumns());
+    return true;
+  }
+
+  /** The group header spans of the displayed columns, in column order */
+  public getColumnGroupSpans(): ColumnGroupSpan[] {
+    return this.columnGroupSpans;
+  }
+
+  public getColumnGroupSpan(colIndex: number): ColumnGroupSpan | null {
+    return (
+      this.columnGroupSpans.find(
+        (span) => colIndex >= span.startCol && colIndex <= span.endCol
+      ) ?? null
+    );
+  }
+
+  /** The column still shown when the group of a column is collapsed */
+  private _getSummaryColumn(group: ColumnGroup): string | undefined {
+    const columns = group.columns.filter(
+      (colKey) =>
+        this.columnGroupByKey.get(colKey) === group &&
+        this.columnOrder.includes(colKey) &&
+        !this.schema[colKey]?.hidden
+    );
+    if (group.summaryColumn && columns.includes(group.summaryColumn)) {
+      return group.summaryColumn;
+    }
+    return columns[0];
+  }
+
+  private _isCollapsedColumn(colKey: string): boolean {
+    const group = this.columnGroupByKey.get(colKey);
+    return !!group?.collapsed && this._getSummaryColumn(group) !== colKey;
+  }
+
+  private _getColumnGroupSpans(): ColumnGroupSpan[] {
+    const spans: ColumnGroupSpan[] = [];
+    this.columns.forEach((colKey, colIndex) => {
+      const group = this.columnGroupByKey.get(colKey);
+      if (!group) return;
+      const last = spans[spans.length - 1];
+      if (last?.group === group && last.endCol === colIndex - 1) {
+        last.endCol = colIndex;
+      } else {
+        spans.push({ group, startCol: colIndex, endCol: colIndex });
+      }
+    });
+    return spans;
+  }
+
+  private _getVisibleColumns(): string[] {
+    return this.columnOrder.filter(
+      (colKey) =>
+        !this.schema[colKey]?.hidden && !this._isCollapsedColumn(colKey)
+    );
+  }
+
+  private _getHiddenColumnsBefore(): Map<number, string[]> {
+    const result = new Map<number, string[]>();
+    const displayed = new Set(this.columns);
+    let hiddenColumns: string[] = [];
+    let colIndex = 0;
+    for (const colKey of this.columnOrder) {
+      if (!displayed.has(colKey)) {
+        // columns of collapsed groups are marked by the group header
+        if (this.schema[colKey]?.hidden) hiddenColumns.push(colKey);
+        continue;
+      }
+      if (hiddenColumns.length) result.set(colIndex, hiddenColumns);
+      hiddenColumns = [];
+      colIndex++;
+    }
+    if (hiddenColumns.length) result.set(colIndex, hiddenColumns);
+    return result;
+  }
+
+  /**
+   * Changes the displayed columns. Widths, the active cell and the selected
+   * column move with their columns, widths of hidden columns are kept by key.
+   */
+  private _setColumns(columns: string[]): void {
+    const oldColumns = this.columns;
+    const widthsByKey = new Map(this.hiddenColumnWidths);
+    this.columnWidths.forEach((width, colIndex) => {
+      if (oldColumns[colIndex]) widthsByKey.set(oldColumns[colIndex], width);
+    });
+    const indexByKey = new Map(columns.map((colKey, index) => [colKey, index]));
+    const shift = (colIndex: number) =>
+      indexByKey.get(oldColumns[colIndex]) ?? -1;
+
+    this.columns = columns;
+    this.columnWidths = new SizeMap(this.options.defaultColumnWidth);
+    this.hiddenColumnWidths = new Map();
+    widthsByKey.forEach((width, colKey) => {
+      const colIndex = indexByKey.get(colKey);
+      if (colIndex !== undefined) {
+        this.columnWidths.set(colIndex, width);
+      } else if (this.schema[colKey]) {
+        this.hiddenColumnWidths.set(colKey, width);
+      }
+    });
+    this.hiddenColumnsBefore = this._getHiddenColumnsBefore();
+    this.columnGroupSpans = this._getColumnGroupSpans();
+
+    if (this.activeCell?.col != null) {
+      const col = shift(this.activeCell.col);
+      this.activeCell = col >= 0 ? { ...this.activeCell, col } : null;
+    }
+    if (this.selectedColumn !== null) {
+      const col = shift(this.selectedColumn);
+      this.selectedColumn = col >= 0 ? col : null;
+    }
+    // a range over moved columns no longer covers the same cells
+    this.selectionStartCell = null;
+    this.selectionEndCell = null;
+  }
+
+  /** Returns true if the view needs to be refreshed */
+  private _removeColumnInternal(colKey: string): boolean {
     this.clearAllSelections();
+    let viewChanged = this.filters.delete(colKey);
+    if (this.sortState?.colKey === colKey) {
+      this.sortState = null;
+      viewChanged = true;
+    }
     delete this.schema[colKey];
-    this.columns.splice(colIndex, 1);
-    this.columnWidths.delete(colIndex);
+    this.clearCellStyles();
+    this.columnOrder = this.columnOrder.filter((key) => key !== colKey);
+    this._setColumns(this._getVisibleColumns());
     this.data.forEach((row) => {
       delete row[colKey];
     });
     this.cachedDropdownOptionsByColumn.delete(colKey);
+    return viewChanged;
+  }
+
+  // --- Conditional Formatting ---
+  public getConditionalFormats(): ConditionalFormatRule[] {
+    return this.conditionalFormats;
+  }
+
+  public setConditionalFormats(rules: ConditionalFormatRule[]): void {
+    this.conditionalFormats = [...rules];
+    this.clearCellStyles();
+  }
+
+  /** Drops all cached cell styles, for styles that depend on more than their row */
+  public clearCellStyles(): void {
+    this.cellStyleCache = new WeakMap();
+  }
+
+  /**
+   * Style of a cell from the matching conditional format rules, the `style` of
+   * its column and the `rowStyle:` and `style:<colKey>` fields of its row, in
+   * that order, null if none applies. Cached per row until the row changes.
+   */
+  public getCellStyle(rowIndex: number, colKey: string): CellStyle | null {
+    const rowData = this.getRowData(rowIndex);
+    if (!rowData) return null;
+    let rowStyles = this.cellStyleCache.get(rowData);
+    if (!rowStyles) {
+      rowStyles = new Map();
+      this.cellStyleCache.set(rowData, rowStyles);
+    }
+    let style = rowStyles.get(colKey);
+    if (style === undefined) {
+      style = this._computeCellStyle(rowData, colKey);
+      rowStyles.set(colKey, style);
+    }
+    return style;
+  }
+
+  private _computeCellStyle(rowData: DataRow, colKey: string): CellStyle | null {
+    const value = rowData[colKey];
+    const styles: CellStyle[] = [];
+    try {
+      for (const rule of this.conditionalFormats) {
+        if (rule.columns && !rule.columns.includes(colKey)) continue;
+        if (rule.condition(value, rowData, colKey)) styles.push(rule.style);
+      }
+      const columnStyle = this.schema[colKey]?.style?.(value, rowData);
+      if (columnStyle) styles.push(columnStyle);
+      const rowStyle = this.getRowStyle(rowData);
+      if (rowStyle) {
+        // the bar of a row style is drawn once, on the row number
+        const { barColor, ...rowCellStyle } = rowStyle;
+        styles.push(rowCellStyle);
+      }
+      const cellStyle = rowData[`${STYLE_FIELD_PREFIX}${colKey}`];
+      if (cellStyle) styles.push(cellStyle);
+    } catch (error) {
+      log(
+        "error",
+        this.options.verbose,
+        `Error computing the style of ${colKey}: ${error}`
+      );
+    }
+    return styles.length ? Object.assign({}, ...styles) : null;
+  }
+
+  /** The `rowStyle:` field of a row, set by the host for the whole row */
+  public getRowStyle(rowData: DataRow | undefined): CellStyle | null {
+    return rowData?.[ROW_STYLE_FIELD] || null;
+  }
+
+  /** Drops the cached styles of a data row after it changed */
+  private _invalidateCellStyles(rowIndex: number): void {
+    const rowData = this.data[rowIndex];
+    if (rowData) this.cellStyleCache.delete(rowData);
+  }
+
+  // --- View (sorting and filtering) ---
+  public getDataRowIndex(rowIndex: number): number {
+    if (this.viewRows) {
+      return this.viewRows[rowIndex] ?? -1;
+    }
+    return rowIndex >= 0 && rowIndex < this.data.length ? rowIndex : -1;
+  }
+
+  /** Returns the view index of a data row, or -1 if it is not in the view */
+  public getViewRowIndex(dataRowIndex: number): number {
+    if (this.viewIndexByDataRow) {
+      return this.viewIndexByDataRow[dataRowIndex] ?? -1;
+    }
+    return dataRowIndex >= 0 && dataRowIndex < this.data.length
+      ? dataRowIndex
+      : -1;
+  }
+
+  public isColumnSortable(colIndex: number): boolean {
+    const schemaCol = this.getSchemaForColumn(colIndex);
+    return (
+      !!schemaCol && this.options.sortable && schemaCol.sortable !== false
+    );
+  }
+
+  public isColumnFilterable(colIndex: number): boolean {
+    const schemaCol = this.getSchemaForColumn(colIndex);
+    return (
+      !!schemaCol && this.options.filterable && schemaCol.filterable !== false
+    );
+  }
+
+  public getSortState(): SortState | null {
+    return this.sortState;
+  }
+
+  /** Sets the sort and re-orders the view. Returns true if the sort changed */
+  public setSortState(sortState: SortState | null): boolean {
+    const changed =
+      this.sortState?.colKey !== sortState?.colKey ||
+      this.sortState?.direction !== sortState?.direction;
+    this.sortState = sortState;
+    this.refreshView();
+    return changed;
+  }
+
+  public getFilter(colKey: string): ColumnFilter | undefined {
+    return this.filters.get(colKey);
+  }
+
+  public getFilters(): Map<string, ColumnFilter> {
+    return this.filters;
+  }
+
+  /** Sets or removes (null) the filter of a column and refreshes the view. Returns true if the filters changed */
+  public setFilter(colKey: string, filter: ColumnFilter | null): boolean {
+    const current = this.filters.get(colKey);
+    if (JSON.stringify(current ?? null) === JSON.stringify(filter)) {
+      return false;
+    }
+    if (filter) {
+      this.filters.set(colKey, filter);
+    } else {
+      this.filters.delete(colKey);
+    }
+    this.refreshView();
+    return true;
+  }
+
+  /** Removes all filters. Returns true if there were any */
+  public clearFilters(): boolean {
+    if (!this.filters.size) return false;
+    this.filters.clear();
+    this.refreshView();
+    return true;
+  }
+
+  /** Returns the distinct non-blank values of a column, multi-select values are flattened */
+  public getColumnValues(colKey: string): any[] {
+    const values = new Set<any>();
+    for (const row of this.data) {
+      const value = row[colKey];
+      if (isBlankValue(value)) continue;
+      if (Array.isArray(value)) {
+        value.forEach((item) => values.add(item));
+      } else {
+        values.add(value);
+      }
+    }
+    return Array.from(values);
+  }
+
+  /**
+   * Rebuilds the view from the filters and the sort state.
+   * Edits do not hide or re-order rows until this is called.
+   */
+  public refreshView(): void {
+    const sortState = this.sortState;
+    const schemaCol = sortState ? this.schema[sortState.colKey] : undefined;
+    const filters = Array.from(this.filters.entries()).filter(
+      ([colKey]) => this.schema[colKey]
+    );
+    if ((!sortState || !schemaCol) && !filters.length) {
+      this._setViewRows(null);
+      return;
+    }
+    const viewRows: number[] = [];
+    this.data.forEach((row, index) => {
+      const isVisible = filters.every(([colKey, filter]) =>
+        matchesFilter(
+          row[colKey],
+          filter,
+          this.schema[colKey].type,
+          this.cachedDropdownOptionsByColumn.get(colKey),
+          this.options
+        )
+      );
+      if (isVisible) viewRows.push(index);
+    });
+    if (!sortState || !schemaCol) {
+      this._setViewRows(viewRows);
+      return;
+    }
+    const { colKey, direction } = sortState;
+    const cachedOptions = this.cachedDropdownOptionsByColumn.get(colKey);
+    // resolve the comparable values once instead of in every comparison
+    const sortValues = this.data.map((row) =>
+      getSortValue(row[colKey], schemaCol.type, cachedOptions)
+    );
+    const multiplier = direction === "desc" ? -1 : 1;
+    viewRows.sort((a, b) => {
+      const valueA = sortValues[a];
+      const valueB = sortValues[b];
+      // blank values are always at the end
+      if (valueA === null || valueB === null) {
+        if (valueA === valueB) return a - b;
+        return valueA === null ? 1 : -1;
+      }
+      return multiplier * compareSortValues(valueA, valueB) || a - b;
+    });
+    this._setViewRows(viewRows);
+  }
+
+  private _setViewRows(viewRows: number[] | null): void {
+    // row heights and the active cell are stored by view index, so they move with their rows
+    const heightsByDataRow = this._mapViewKeysToDataKeys(this.rowHeights);
+    const userResizedByDataRow = this._mapViewKeysToDataKeys(
+      this.userResizedRows
+    );
+    this.hiddenRowHeights.forEach((height, dataRowIndex) =>
+      heightsByDataRow.set(dataRowIndex, height)
+    );
+    this.hiddenUserResizedRows.forEach((resized, dataRowIndex) =>
+      userResizedByDataRow.set(dataRowIndex, resized)
+    );
+    const activeDataRow =
+      this.activeCell?.row != null
+        ? this.getDataRowIndex(this.activeCell.row)
+        : -1;
+
+    this.viewRows = viewRows;
+    if (viewRows) {
+      this.viewIndexByDataRow = new Array(this.data.length).fill(-1);
+      viewRows.forEach((dataRowIndex, viewIndex) => {
+        this.viewIndexByDataRow![dataRowIndex] = viewIndex;
+      });
+    } else {
+      this.viewIndexByDataRow = null;
+    }
+
+    this.rowHeights = this._mapDataKeysToViewKeys(
+      heightsByDataRow,
+      (this.hiddenRowHeights = new Map()),
+      new SizeMap(this.options.defaultRowHeight)
+    );
+    this.userResizedRows = this._mapDataKeysToViewKeys(
+      userResizedByDataRow,
+      (this.hiddenUserResizedRows = new Map())
+    );
+    if (this.activeCell && activeDataRow >= 0) {
+      const row = this.getViewRowIndex(activeDataRow);
+      this.activeCell = row >= 0 ? { ...this.activeCell, row } : null;
+    }
+    this.selectionStartCell = null;
+    this.selectionEndCell = null;
+    this.selectedRows = new Set();
+    this.lastClickedRow = null;
+  }
+
+  private _mapViewKeysToDataKeys<T>(map: Map<number, T>): Map<number, T> {
+    const result = new Map<number, T>();
+    map.forEach((value, rowIndex) => {
+      const dataRowIndex = this.getDataRowIndex(rowIndex);
+      if (dataRowIndex >= 0) result.set(dataRowIndex, value);
+    });
+    return result;
+  }
+
+  /** Entries of rows outside of the view are moved to the hidden map */
+  private _mapDataKeysToViewKeys<T, M extends Map<number, T>>(
+    map: Map<number, T>,
+    hidden: Map<number, T>,
+    result: M = new Map<number, T>() as M
+  ): M {
+    map.forEach((value, dataRowIndex) => {
+      const rowIndex = this.getViewRowIndex(dataRowIndex);
+      if (rowIndex >= 0) {
+        result.set(rowIndex, value);
+      } else if (dataRowIndex < this.data.length) {
+        hidden.set(dataRowIndex, value);
+      }
+    });
+    return result;
+  }
+
+  /** Keeps the view order after data rows were removed, indices must be sorted descending */
+  private _removeDataRowsFromView(removedDataRows: number[]): void {
+    if (!this.viewRows) return;
+    const ascending = [...removedDataRows].reverse();
+    // shift down by the number of removed rows before this one
+    const shift = (dataRowIndex: number) =>
+      indexAfterRemove(dataRowIndex, ascending);
+    const viewRows: number[] = [];
+    for (const dataRowIndex of this.viewRows) {
+      const shifted = shift(dataRowIndex);
+      if (shifted >= 0) viewRows.push(shifted);
+    }
+    this.viewRows = viewRows;
+    this.viewIndexByDataRow = new Array(this.data.length).fill(-1);
+    viewRows.forEach((dataRowIndex, viewIndex) => {
+      this.viewIndexByDataRow![dataRowIndex] = viewIndex;
+    });
+    // hidden rows are keyed by data index, so they shift as well
+    this._remapKeys(this.hiddenRowHeights, shift);
+    this._remapKeys(this.hiddenUserResizedRows, shift);
+  }
+
+  /** Adds data rows to the view, the following rows and their state move down */
+  private _insertDataRowsIntoView(
+    dataRowIndex: number,
+    count: number,
+    viewRowIndex: number
+  ): void {
+    const insertedDataRows = Array.from(
+      { length: count },
+      (_, index) => dataRowIndex + index
+    );
+    if (this.viewRows) {
+      const shift = (index: number) =>
+        indexAfterInsert(index, insertedDataRows);
+      const viewRows = this.viewRows.map(shift);
+      viewRows.splice(viewRowIndex, 0, ...insertedDataRows);
+      this.viewRows = viewRows;
+      this.viewIndexByDataRow = new Array(this.data.length).fill(-1);
+      viewRows.forEach((dataRowIndex, viewIndex) => {
+        this.viewIndexByDataRow![dataRowIndex] = viewIndex;
+      });
+      this._remapKeys(this.hiddenRowHeights, shift);
+      this._remapKeys(this.hiddenUserResizedRows, shift);
+    } else {
+      viewRowIndex = dataRowIndex; // the view is the data order
+    }
+    const insertedRows = insertedDataRows.map(
+      (index) => index - dataRowIndex + viewRowIndex
+    );
+    this._insertRowLayout(insertedRows);
+    this._shiftRowState((rowIndex) => indexAfterInsert(rowIndex, insertedRows));
+  }
+
+  /**
+   * Data order after moving the data rows `rows` to `rowIndex`,
+   * as the old data index of every new index
+   */
+  private _getMoveOrder(rows: number[], rowIndex: number): number[] {
+    const movedRows = new Set(rows);
+    const order: number[] = [];
+    for (let index = 0; index < this.data.length; index++) {
+      if (!movedRows.has(index)) order.push(index);
+    }
+    order.splice(rowIndex, 0, ...rows);
+    return order;
+  }
+
+  /**
+   * Re-orders the data rows, `order` holds the old data index of every new index.
+   * A filtered view keeps the data order, heights and the selection move with their rows.
+   */
+  private _reorderDataRows(order: number[]): void {
+    const newIndexByDataRow: number[] = [];
+    order.forEach((dataRowIndex, index) => {
+      newIndexByDataRow[dataRowIndex] = index;
+    });
+    const shift = (dataRowIndex: number) =>
+      newIndexByDataRow[dataRowIndex] ?? -1;
+    const rows = order.map((dataRowIndex) => this.data[dataRowIndex]);
+    rows.forEach((row, index) => (this.data[index] = row));
+
+    const oldViewRows = this.viewRows;
+    if (oldViewRows) {
+      const viewRows = oldViewRows.map(shift).sort((a, b) => a - b);
+      this.viewRows = viewRows;
+      this.viewIndexByDataRow = new Array(this.data.length).fill(-1);
+      viewRows.forEach((dataRowIndex, viewIndex) => {
+        this.viewIndexByDataRow![dataRowIndex] = viewIndex;
+      });
+      this._remapKeys(this.hiddenRowHeights, shift);
+      this._remapKeys(this.hiddenUserResizedRows, shift);
+    }
+    const shiftRow = (rowIndex: number) => {
+      if (!oldViewRows) return shift(rowIndex);
+      if (rowIndex >= oldViewRows.length) return -1;
+      return this.getViewRowIndex(shift(oldViewRows[rowIndex]));
+    };
+    this._remapKeys(this.rowHeights, shiftRow);
+    this._remapKeys(this.userResizedRows, shiftRow);
+    this._shiftRowState(shiftRow);
+    this._shiftDirtyRowHeights(shift);
+    // disabled callbacks get the row index, so moved rows are re-evaluated
+    order.forEach((dataRowIndex, index) => {
+      if (dataRowIndex !== index) this._updateDisabledStatesForDataRow(index);
+    });
+  }
+
+  /** Moves the active cell, selection and copied cells with their rows */
+  private _shiftRowState(shift: (rowIndex: number) => number): void {
+    const shiftCell = (cell: CellCoords | null) =>
+      cell && cell.row !== null ? { ...cell, row: shift(cell.row) } : cell;
+    this.activeCell = shiftCell(this.activeCell);
+    this.selectionStartCell = shiftCell(this.selectionStartCell);
+    this.selectionEndCell = shiftCell(this.selectionEndCell);
+    this.selectedRows = new Set([...this.selectedRows].map(shift));
+    if (this.lastClickedRow !== null) {
+      this.lastClickedRow = shift(this.lastClickedRow);
+    }
+    this.copiedCell = shiftCell(this.copiedCell);
+    if (this.copiedSourceRange) {
+      this.copiedSourceRange = {
+        start: shiftCell(this.copiedSourceRange.start)!,
+        end: shiftCell(this.copiedSourceRange.end)!,
+      };
+    }
+  }
+
+  /** Removes the heights of the rows at the view indices, the following rows move up */
+  private _removeRowLayout(removedRows: number[]): void {
+    const shift = (rowIndex: number) => indexAfterRemove(rowIndex, removedRows);
+    this._remapKeys(this.rowHeights, shift);
+    this._remapKeys(this.userResizedRows, shift);
+  }
+
+  /** Makes room for rows inserted at the view indices, the following rows move down */
+  private _insertRowLayout(insertedRows: number[]): void {
+    const shift = (rowIndex: number) =>
+      indexAfterInsert(rowIndex, insertedRows);
+    this._remapKeys(this.rowHeights, shift);
+    this._remapKeys(this.userResizedRows, shift);
+  }
+
+  /**
+   * Moves the entries of a map keyed by row or column index to new indices,
+   * entries are dropped when `getIndex` returns -1
+   */
+  private _remapKeys<T>(
+    map: Map<number, T>,
+    getIndex: (index: number) => number
+  ): void {
+    const entries = [...map];
+    map.clear();
+    for (const [index, value] of entries) {
+      const newIndex = getIndex(index);
+      if (newIndex >= 0) map.set(newIndex, value);
+    }
+  }
+
+  // --- History ---
+  /** Runs the callback in a history transaction, its changes are undone as one step */
+  public transaction<T>(callback: () => T): T {
+    return this.history.transaction(callback);
+  }
+
+  public beginTransaction(): void {
+    this.history.begin();
+  }
+
+  public commitTransaction(): void {
+    this.history.commit();
+  }
+
+  public canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  public canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  public undo(): HistoryApplyResult | null {
+    const transaction = this.history.takeUndo();
+    if (!transaction) return null;
+    return this._applyHistory([...transaction].reverse(), true);
+  }
+
+  public redo(): HistoryApplyResult | null {
+    const transaction = this.history.takeRedo();
+    if (!transaction) return null;
+    return this._applyHistory(transaction, false);
+  }
+
+  private _recordCellChange(
+    rowIndex: number,
+    colKey: string,
+    oldValue: any,
+    newValue: any
+  ): void {
+    if (!this.history.isRecording || oldValue === newValue) return;
+    this.history.record({ type: "cell", rowIndex, colKey, oldValue, newValue });
+  }
+
+  /** Applies history entries directly to the data, without recording them again */
+  private _applyHistory(
+    entries: HistoryEntry[],
+    isUndo: boolean
+  ): HistoryApplyResult {
+    const result: HistoryApplyResult = {
+      cellUpdates: [],
+      deletedRows: [],
+      insertedRows: [],
+      movedRows: [],
+      deletedColumns: [],
+      columnOrder: null,
+      structural: false,
+      focusCell: null,
+    };
+    if (
+      entries.some(
+        (entry) => entry.type !== "cell" && entry.type !== "columnOrder"
+      )
+    ) {
+      // structural entries use data indices, the view is rebuilt afterwards
+      this._setViewRows(null);
+    }
+    const updatesByRow = new Map<number, CellUpdateEvent>();
+    const addCellUpdate = (rowIndex: number, colKey: string, oldValue: any) => {
+      let update = updatesByRow.get(rowIndex);
+      if (!update) {
+        update = {
+          rowIndex,
+          columnKeys: [],
+          data: this.data[rowIndex],
+          oldData: {},
+        };
+        updatesByRow.set(rowIndex, update);
+        result.cellUpdates.push(update);
+      }
+      if (!update.columnKeys.includes(colKey)) {
+        update.columnKeys.push(colKey);
+        update.oldData![colKey] = oldValue;
+      }
+      if (!result.focusCell) {
+        result.focusCell = { rowIndex, colKey };
+      }
+    };
+
+    for (const entry of entries) {
+      if (entry.type === "cell") {
+        const rowData = this.data[entry.rowIndex];
+        if (!rowData) continue;
+        const value = isUndo ? entry.oldValue : entry.newValue;
+        const currentValue = rowData[entry.colKey];
+        if (value === undefined) {
+          delete rowData[entry.colKey];
+        } else {
+          rowData[entry.colKey] = value;
+        }
+        this.cellStyleCache.delete(rowData);
+        if (!entry.colKey.includes(":")) {
+          addCellUpdate(entry.rowIndex, entry.colKey, currentValue);
+        }
+      } else if (entry.type === "deleteRows") {
+        result.structural = true;
+        if (isUndo) {
+          // the view is the data order here, so view and data indices match
+          this._insertRowLayout(entry.rows.map((row) => row.rowIndex));
+          // ascending order restores the original positions
+          for (const row of entry.rows) {
+            this.data.splice(row.rowIndex, 0, row.data);
+            if (row.height !== undefined) {
+              this.rowHeights.set(row.rowIndex, row.height);
+            }
+            if (row.userResized) {
+              this.userResizedRows.set(row.rowIndex, true);
+            }
+          }
+          const restoredRows = entry.rows.map((row) => row.rowIndex);
+          this._shiftDirtyRowHeights((dataRowIndex) =>
+            indexAfterInsert(dataRowIndex, restoredRows)
+          );
+          // the host gets the restored rows back as updates
+          for (const row of entry.rows) {
+            Object.keys(row.data)
+              .filter((key) => !key.includes(":"))
+              .forEach((key) => addCellUpdate(row.rowIndex, key, undefined));
+          }
+        } else {
+          for (let i = entry.rows.length - 1; i >= 0; i--) {
+            this.data.splice(entry.rows[i].rowIndex, 1);
+          }
+          const removedRows = entry.rows.map((row) => row.rowIndex);
+          this._removeRowLayout(removedRows);
+          this._shiftDirtyRowHeights((dataRowIndex) =>
+            indexAfterRemove(dataRowIndex, removedRows)
+          );
+          result.deletedRows.push(...entry.rows.map((row) => row.data));
+        }
+      } else if (entry.type === "insertRows") {
+        result.structural = true;
+        const positions = entry.rows.map((_, index) => entry.rowIndex + index);
+        if (isUndo) {
+          this.data.splice(entry.rowIndex, entry.rows.length);
+          this._removeRowLayout(positions);
+          this._shiftDirtyRowHeights((dataRowIndex) =>
+            indexAfterRemove(dataRowIndex, positions)
+          );
+          result.deletedRows.push(...entry.rows);
+        } else {
+          this.data.splice(entry.rowIndex, 0, ...entry.rows);
+          this._insertRowLayout(positions);
+          this._shiftDirtyRowHeights((dataRowIndex) =>
+            indexAfterInsert(dataRowIndex, positions)
+          );
+          result.insertedRows.push({
+            rowIndex: entry.rowIndex,
+            rows: entry.rows,
+          });
+        }
+      } else if (entry.type === "moveRows") {
+        result.structural = true;
+        const order = this._getMoveOrder(entry.rows, entry.rowIndex);
+        const movedTo = entry.rows.map((_, index) => entry.rowIndex + index);
+        if (isUndo) {
+          // the inverse permutation puts the rows back
+          const inverse: number[] = [];
+          order.forEach((dataRowIndex, index) => {
+            inverse[dataRowIndex] = index;
+          });
+          this._reorderDataRows(inverse);
+          result.movedRows.push({ from: movedTo, to: entry.rows });
+        } else {
+          this._reorderDataRows(order);
+          result.movedRows.push({ from: entry.rows, to: movedTo });
+        }
+      } else if (entry.type === "columnOrder") {
+        const columns = this._completeColumnOrder(
+          isUndo ? entry.oldOrder : entry.newOrder
+        );
+        this._setColumnOrderInternal(columns);
+        result.columnOrder = [...columns];
+      } else if (entry.type === "removeColumn") {
+        result.structural = true;
+        if (isUndo) {
+          this.columnOrder.splice(entry.orderIndex, 0, entry.colKey);
+          this.schema[entry.colKey] = entry.schema;
+          if (entry.width !== undefined) {
+            // moved to the column index when the columns are set
+            this.hiddenColumnWidths.set(entry.colKey, entry.width);
+          }
+          this._setColumns(this._getVisibleColumns());
+          if (entry.cachedOptions) {
+            this.cachedDropdownOptionsByColumn.set(
+              entry.colKey,
+              entry.cachedOptions
+            );
+          }
+          entry.fields.forEach((fields, rowIndex) => {
+            if (!this.data[rowIndex]) return;
+            Object.assign(this.data[rowIndex], fields);
+            if (entry.colKey in fields) {
+              addCellUpdate(rowIndex, entry.colKey, undefined);
+            }
+          });
+        } else {
+          this._removeColumnInternal(entry.colKey);
+          result.deletedColumns.push(entry.colKey);
+        }
+      }
+    }
+
+    if (result.structural) {
+      this._updateFormulaColumns();
+      this._updateAllDisabledStates();
+      this.refreshView();
+    } else {
+      updatesByRow.forEach((update, rowIndex) => {
+        this._recalculateFormulas(rowIndex, update.columnKeys);
+        this._updateDisabledStatesForDataRow(rowIndex);
+      });
+    }
+    return result;
   }
 
   public isRowUserResized(rowIndex: number): boolean {
@@ -956,4 +2252,73 @@ export class StateManager {
   public getUserResizedRows(): Map<number, boolean> {
     return this.userResizedRows;
   }
+
+  /** Marks data rows to be measured again, all rows if no indices are given */
+  public invalidateRowHeights(dataRows?: Iterable<number>): void {
+    if (!dataRows) {
+      this.dirtyRowHeights = null;
+      return;
+    }
+    if (!this.dirtyRowHeights) return; // all rows are dirty already
+    for (const dataRowIndex of dataRows) {
+      this.dirtyRowHeights.add(dataRowIndex);
+    }
+  }
+
+  /** Returns the data rows to measure, null for all rows, and clears them */
+  public takeDirtyRowHeights(): Set<number> | null {
+    const dirtyRows = this.dirtyRowHeights;
+    this.dirtyRowHeights = new Set();
+    return dirtyRows;
+  }
+
+  /** Moves the rows to measure with their data rows, after rows were added or removed */
+  private _shiftDirtyRowHeights(shift: (dataRowIndex: number) => number): void {
+    if (!this.dirtyRowHeights) return;
+    const dirtyRows = [...this.dirtyRowHeights].map(shift);
+    this.dirtyRowHeights = new Set(dirtyRows.filter((index) => index >= 0));
+  }
+
+  // --- Formulas ---
+  /** Rebuilds the formula dependency graph and recalculates all rows, after a schema change */
+  private _updateFormulaColumns(): void {
+    this.formulaEngine.setSchema(this.schema);
+    this._recalculateAllFormulas();
+  }
+
+  private _recalculateAllFormulas(): void {
+    if (!this.formulaEngine.hasFormulas()) return;
+    for (let rowIndex = 0; rowIndex < this.data.length; rowIndex++) {
+      this._recalculateFormulas(rowIndex);
+    }
+  }
+
+  /**
+   * Recalculates the formula columns of a data row that depend on the changed columns,
+   * or all formula columns of the row. Computed values are not part of the history,
+   * undo and redo recalculate them from the inputs.
+   */
+  private _recalculateFormulas(rowIndex: number, changedKeys?: string[]): void {
+    const rowData = this.data[rowIndex];
+    if (!rowData) return;
+    for (const colKey of this.formulaEngine.getDependentColumns(changedKeys)) {
+      this._evaluateFormula(rowData, colKey);
+    }
+  }
+
+  /**
+   * Sets the value of a formula column of a row, or its formula error field. Unlike
+   * validation errors, formula errors don't exclude the row from getData()
+   */
+  private _evaluateFormula(rowData: DataRow, colKey: string): void {
+    const result = this.formulaEngine.evaluate(colKey, rowData);
+    const errorKey = `${FORMULA_ERROR_FIELD_PREFIX}${colKey}`;
+    if ("error" in result) {
+      rowData[colKey] = null;
+      rowData[errorKey] = result.error;
+    } else {
+      rowData[colKey] = result.value;
+      delete rowData[errorKey];
+    }
+  }
 }
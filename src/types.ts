@@ -3,6 +3,8 @@ export type DataType =
   | "number"
   | "boolean"
   | "date"
+  | "datetime"
+  | "time"
   | "select"
   | "email";
 export type Nullable<T> = T | null;
@@ -38,9 +40,108 @@ export interface ColumnSchema {
   formatter?: (value: any) => string | null;
   lazySearch?: boolean;
   defaultValue?: any;
+  formula?: string; // computed column, e.g. "price * quantity" or 'IF(done, "Yes", "No")'
+  editor?: CustomEditorClass | string; // editor class, or the name of one in the customEditors option
+  customEditor?: boolean; // opened with the onEditorOpen callback, like customDatePicker
   // styling
   wordWrap?: boolean;
+  render?: CellRenderer | string; // draws the cells, or the name of a renderer in the cellRenderers option
+  style?: (value: any, rowData: DataRow) => CellStyle | null | undefined; // conditional formatting of the cells
   autoTrim?: boolean; // for text input, trims the value
+  sortable?: boolean; // set to false to hide the sort indicator of the column
+  filterable?: boolean; // set to false to hide the filter icon of the column
+  hidden?: boolean; // not displayed, the data is kept
+}
+
+/**
+ * Style of a cell set by conditional formatting or by the `style:<colKey>` and
+ * `rowStyle:` fields of a row, unset properties keep the default
+ */
+export interface CellStyle {
+  backgroundColor?: string;
+  textColor?: string;
+  fontWeight?: string; // e.g. "bold" or "600"
+  fontStyle?: string; // e.g. "italic"
+  textAlign?: "left" | "center" | "right";
+  borderColor?: string; // drawn inside the cell
+  borderWidth?: number; // 1 by default
+  barColor?: string; // bar on the left edge of the cell, of the row number for row styles
+}
+
+/** Cell and controls passed to a custom editor when it is mounted */
+export interface CustomEditorContext {
+  rowIndex: number; // data index
+  colKey: string;
+  value: any;
+  rowData: DataRow;
+  schema: ColumnSchema;
+  initialChar?: string; // typed character that opened the editor
+  commit: () => void; // saves the value of getValue and closes the editor
+  cancel: () => void; // closes the editor without saving
+}
+
+/**
+ * Editor mounted in a container over the cell. Enter and Tab save the value
+ * and Escape discards it, unless the editor calls preventDefault on the event.
+ */
+export interface CustomEditor {
+  mount(container: HTMLElement, context: CustomEditorContext): void;
+  getValue(): any;
+  destroy(): void;
+  // true for elements of the editor outside the container, like a popup in the body
+  contains?(target: Node): boolean;
+}
+
+export type CustomEditorClass = new () => CustomEditor;
+
+/** State of a cell passed to a custom cell renderer */
+export interface CellRenderState {
+  rowIndex: number; // data index
+  colKey: string;
+  formattedValue: string; // text the cell shows without the renderer
+  textColor: string; // text color for the state and style of the cell
+  style: CellStyle | null;
+  error: string | null;
+  isActive: boolean;
+  isSelected: boolean; // in the selected range, row or column
+  isDisabled: boolean;
+  isEditing: boolean;
+}
+
+/**
+ * Draws the content of a cell inside the padded bounds. The cell is clipped
+ * and its background is drawn already, the context is restored afterwards.
+ * Return false to draw the text of the cell instead.
+ */
+export type CellRenderer = (
+  ctx: CanvasRenderingContext2D,
+  bounds: CellBounds,
+  value: any,
+  rowData: DataRow,
+  state: CellRenderState
+) => boolean | void;
+
+/** Styles the cells of the matching rows, later rules override earlier ones */
+export interface ConditionalFormatRule {
+  columns?: string[]; // columns whose cells are styled, all columns by default
+  condition: (value: any, rowData: DataRow, colKey: string) => boolean;
+  style: CellStyle;
+}
+
+/** Columns shown under a common label in a header band above the column headers */
+export interface ColumnGroup {
+  key: string; // identifies the group when it is collapsed or expanded
+  label: string;
+  columns: string[]; // keys of the grouped columns
+  collapsed?: boolean; // only the summary column is shown
+  summaryColumn?: string; // column shown when collapsed, the first column by default
+}
+
+/** Run of adjacent displayed columns of a group, drawn as one group header */
+export interface ColumnGroupSpan {
+  group: ColumnGroup;
+  startCol: number;
+  endCol: number;
 }
 
 export interface SpreadsheetSchema {
@@ -51,6 +152,28 @@ export interface DataRow {
   [key: string]: any; // Allows any value type initially
 }
 
+export type SortDirection = "asc" | "desc";
+
+export interface SortState {
+  colKey: string;
+  direction: SortDirection;
+}
+
+/** Filters are combined with AND, rows that don't match are hidden */
+export type ColumnFilter =
+  // case-insensitive match on the displayed value
+  | { type: "text"; contains: string }
+  // inclusive, a null bound is ignored
+  | { type: "number"; min?: number | null; max?: number | null }
+  // inclusive YYYY-MM-DD dates, a null bound is ignored
+  | { type: "date"; from?: string | null; to?: string | null }
+  // select ids or booleans, null matches blank cells
+  | { type: "values"; values: any[] }
+  | { type: "blank" }
+  | { type: "notBlank" };
+
+export type HeaderIcon = "sort" | "filter";
+
 export interface CellCoords {
   row: number | null;
   col: number | null;
@@ -97,6 +220,21 @@ export interface ResizeRowState {
   originalHeight?: number;
 }
 
+export interface RowDragState {
+  isDragging: boolean;
+  startY: number | null; // clientY of the mousedown
+  targetRow: number | null; // view index the rows are dropped before, null until the mouse moves
+}
+
+export interface ColumnDragState {
+  isDragging: boolean;
+  colIndex: number | null;
+  startX: number | null; // clientX of the mousedown
+  grabOffset: number; // x of the mousedown within the header, keeps the ghost under the mouse
+  currentX: number | null; // canvas x of the mouse
+  targetCol: number | null; // index the column is dropped before, null until the mouse moves
+}
+
 export interface VisibleCell {
   rowIndex: number;
   colKey: string;
@@ -124,7 +262,10 @@ export interface SpreadsheetOptions {
   minRowHeight?: number;
   maxRowHeight?: number;
   headerHeight?: number;
+  groupHeaderHeight?: number; // Height of the column group band above the headers
   rowNumberWidth?: number;
+  frozenColumns?: number; // Number of leading columns pinned while scrolling horizontally
+  frozenRows?: number; // Number of leading rows pinned while scrolling vertically
   font?: string;
   headerFont?: string;
   textColor?: string;
@@ -150,6 +291,8 @@ export interface SpreadsheetOptions {
   headerClipText?: boolean; // Clip text or adjust(squish) text width to fit the header
   headerTextAlign?: "left" | "center" | "right";
   gridLineColor?: string;
+  frozenDividerColor?: string; // Line between the frozen panes and the scrolling cells
+  hiddenColumnMarkerColor?: string; // Arrows on the header border where columns are hidden
   resizeDividerColor?: string; // Color for resize divider lines
   rowNumberBgColor?: string;
   selectedRowNumberBgColor?: string;
@@ -166,6 +309,9 @@ export interface SpreadsheetOptions {
   copyHighlightBorderDash?: number[];
   temporaryErrorTimeout?: number;
   customDatePicker?: boolean;
+  timeZone?: Nullable<string>; // IANA time zone datetime values are displayed and edited in, null for the local one
+  dateTimeFormat?: Intl.DateTimeFormatOptions; // display format of datetime values
+  timeFormat?: Intl.DateTimeFormatOptions; // display format of time values
   autoAddNewRow?: boolean;
   autoResizeRowHeight?: boolean; // Whether to automatically resize row heights based on content
   lazySearchDebounceTime?: number;
@@ -173,12 +319,26 @@ export interface SpreadsheetOptions {
   allowTabInTextarea?: boolean;
   wrapText?: boolean;
   lineHeight?: number; // in pixels
+  historySize?: number; // Max number of undo steps
+  sortable?: boolean; // Sort rows by clicking the sort indicator in the column headers
+  filterable?: boolean; // Filter rows with the filter menu in the column headers
+  headerIconSize?: number; // Size of the clickable icons in the column headers
+  columnGroups?: ColumnGroup[];
+  conditionalFormats?: ConditionalFormatRule[];
+  cellRenderers?: Record<string, CellRenderer>; // renderers the columns refer to by name
+  customEditors?: Record<string, CustomEditorClass>; // editors the columns refer to by name
   verbose?: boolean;
 
   onCellsUpdate?: Nullable<(rows: CellUpdateEvent[]) => void>;
   onCellSelected?: Nullable<(event: CellEvent) => void>;
   onEditorOpen?: Nullable<(event: CellEventWithBounds) => void>;
   onRowDeleted?: Nullable<(rows: DataRow[]) => void>;
+  onRowsInserted?: Nullable<(rowIndex: number, rows: DataRow[]) => void>;
+  onRowsMoved?: Nullable<(from: number[], to: number[]) => void>;
+  onColumnOrderChange?: Nullable<(columns: string[]) => void>;
+  onColumnGroupToggle?: Nullable<
+    (groupKey: string, collapsed: boolean) => void
+  >;
   onColumnDelete?: Nullable<(colIndex: number, schema: ColumnSchema) => void>;
   onColumnDeleted?: Nullable<(colKey: string) => void>;
   onLazySearch?: Nullable<
@@ -192,6 +352,8 @@ export interface SpreadsheetOptions {
   onEditorOpened?: Nullable<(event: EditorOpenedEvent) => void>;
   onEditorClosed?: Nullable<(event: CellCoords) => void>;
   onColumnWidthsChange?: Nullable<(widths: Record<string, number>) => void>;
+  onSortChange?: Nullable<(sort: SortState | null) => void>;
+  onFilterChange?: Nullable<(filters: Record<string, ColumnFilter>) => void>;
 }
 
 export interface CellUpdateInput extends VisibleCell {
@@ -206,9 +368,42 @@ export interface CellUpdateEvent {
   oldData?: DataRow;
 }
 
+export interface CsvExportOptions {
+  visibleColumnsOnly?: boolean; // only the displayed schema columns (default true)
+  raw?: boolean; // raw values instead of the display text, can be imported again
+  selectLabels?: boolean; // option names instead of ids for raw values (default true)
+  keyHeaders?: boolean; // column keys instead of labels in the header row
+  delimiter?: string; // default ","
+}
+
+export interface CsvImportOptions {
+  delimiter?: string; // default ","
+  append?: boolean; // append the rows instead of replacing the data
+}
+
+export interface XlsxExportOptions {
+  sheetName?: string; // default "Sheet1"
+}
+
+export interface XlsxImportOptions {
+  append?: boolean; // append the rows instead of replacing the data
+}
+
+export interface ImportResult {
+  rowCount: number; // imported rows
+  errorCount: number; // cells that failed conversion or validation
+  unmappedHeaders: string[]; // headers that match no column key or label
+}
+
 // Required version of options for internal use
 export type RequiredSpreadsheetOptions = Required<SpreadsheetOptions>;
 
+/** Options used to display datetime and time values */
+export type DateTimeDisplayOptions = Pick<
+  SpreadsheetOptions,
+  "timeZone" | "dateTimeFormat" | "timeFormat"
+>;
+
 export interface DropdownItem {
   id: any;
   name: string;
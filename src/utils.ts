@@ -1,4 +1,11 @@
-import { DataType, ColumnSchema, ValidationErrorType } from "./types";
+import {
+  DataType,
+  ColumnSchema,
+  ValidationErrorType,
+  ColumnFilter,
+  DateTimeDisplayOptions,
+  Nullable,
+} from "./types";
 
 /** Basic logger utility */
 export function log(
@@ -14,7 +21,8 @@ export function log(
 export function formatValue(
   value: any,
   type?: DataType,
-  cachedDropdownOptions?: Map<string | number, string>
+  cachedDropdownOptions?: Map<string | number, string>,
+  dateTimeOptions?: DateTimeDisplayOptions
 ): string {
   if (value === null || value === undefined) return "";
 
@@ -39,6 +47,34 @@ export function formatValue(
         log("warn", false, "Error formatting date value:", value, e);
       }
       return String(value); // Fallback to string representation
+    case "datetime":
+      try {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) {
+          return date.toLocaleString(undefined, {
+            ...dateTimeOptions?.dateTimeFormat,
+            timeZone: dateTimeOptions?.timeZone ?? undefined,
+          });
+        }
+      } catch (e) {
+        // an invalid time zone or format throws a RangeError
+        log("warn", false, "Error formatting datetime value:", value, e);
+      }
+      return String(value);
+    case "time": {
+      // times are wall clock times, they are not shifted to the time zone
+      const seconds = getTimeSeconds(value);
+      if (seconds === null) return String(value);
+      try {
+        return new Date(seconds * 1000).toLocaleTimeString(undefined, {
+          ...dateTimeOptions?.timeFormat,
+          timeZone: "UTC",
+        });
+      } catch (e) {
+        log("warn", false, "Error formatting time value:", value, e);
+      }
+      return String(value);
+    }
     case "boolean":
       return value === true ? "True" : value === false ? "False" : "";
     case "select":
@@ -69,8 +105,28 @@ export function formatValue(
   }
 }
 
+/** Returns the display text of a cell value, using the column formatter if set */
+export function formatCellValue(
+  value: any,
+  schemaCol?: ColumnSchema,
+  cachedDropdownOptions?: Map<string | number, string>,
+  dateTimeOptions?: DateTimeDisplayOptions
+): string {
+  if (schemaCol?.formatter) return schemaCol.formatter(value) ?? "";
+  return formatValue(
+    value,
+    schemaCol?.type,
+    cachedDropdownOptions,
+    dateTimeOptions
+  );
+}
+
 /** Format cell value for input element */
-export function formatValueForInput(value: any, type?: DataType): string {
+export function formatValueForInput(
+  value: any,
+  type?: DataType,
+  timeZone?: Nullable<string>
+): string {
   if (value === null || value === undefined) return "";
 
   if (type === "date") {
@@ -93,12 +149,34 @@ export function formatValueForInput(value: any, type?: DataType): string {
     }
     return ""; // Return empty if formatting fails
   }
+  if (type === "datetime") {
+    try {
+      // Input type=datetime-local requires YYYY-MM-DDTHH:mm in the time zone
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) {
+        const wallClock = toZonedWallClock(date, timeZone).toISOString();
+        return wallClock.slice(0, wallClock.endsWith(":00.000Z") ? 16 : 19);
+      }
+    } catch (e) {
+      log("warn", false, "Error formatting datetime for input:", value, e);
+    }
+    return "";
+  }
+  if (type === "time") {
+    // Input type=time requires HH:mm or HH:mm:ss
+    const seconds = getTimeSeconds(value);
+    return seconds === null ? "" : formatTimeSeconds(seconds);
+  }
   // For other types, the default string representation is usually fine
   return String(value);
 }
 
 /** Parse value from input element based on type */
-export function parseValueFromInput(value: string, type?: DataType): any {
+export function parseValueFromInput(
+  value: string,
+  type?: DataType,
+  timeZone?: Nullable<string>
+): any {
   if (value === "") return null; // Treat empty input as null
 
   switch (type) {
@@ -112,6 +190,11 @@ export function parseValueFromInput(value: string, type?: DataType): any {
       // Input type=date provides YYYY-MM-DD. Store as string.
       // Validation might be needed to ensure it's a valid date string.
       return value;
+    case "datetime":
+      // Input type=datetime-local provides the wall clock time in the time zone
+      return parseDateTimeValue(value, timeZone);
+    case "time":
+      return parseTimeValue(value);
     case "text":
     case "email":
     default:
@@ -119,6 +202,343 @@ export function parseValueFromInput(value: string, type?: DataType): any {
   }
 }
 
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// hours and minutes, optional seconds and fraction, optional AM/PM
+const TIME_PATTERN =
+  /(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(?:([ap])\.?m\.?)?/.source;
+const TIME_REGEX = new RegExp(`^${TIME_PATTERN}$`, "i");
+const withTime = (datePattern: RegExp, separator: string) =>
+  new RegExp(`^${datePattern.source}(?:${separator}${TIME_PATTERN})?$`, "i");
+// YYYY-MM-DD, M/D/YYYY and D.M.YYYY (or 2-digit years) with an optional time
+const DATE_TIME_REGEXES = [
+  withTime(/(\d{4})-(\d{1,2})-(\d{1,2})/, "[T ]"),
+  withTime(/(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4}),?/, "\\s+"),
+  withTime(/(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4}),?/, "\\s+"),
+];
+const ISO_OFFSET_REGEX =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * Returns the wall clock time of a date in a time zone (the local one if not
+ * set) as a date whose UTC fields hold that time.
+ */
+export function toZonedWallClock(
+  date: Date,
+  timeZone?: Nullable<string>
+): Date {
+  if (!timeZone) {
+    return new Date(
+      Date.UTC(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        date.getHours(),
+        date.getMinutes(),
+        date.getSeconds(),
+        date.getMilliseconds()
+      )
+    );
+  }
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+  formatter.formatToParts(date).forEach(({ type, value }) => {
+    parts[type] = Number(value);
+  });
+  return new Date(
+    Date.UTC(
+      parts.year!,
+      parts.month! - 1,
+      parts.day!,
+      parts.hour!,
+      parts.minute!,
+      parts.second!,
+      date.getUTCMilliseconds()
+    )
+  );
+}
+
+/** Inverse of toZonedWallClock, returns the date of a wall clock time in a time zone */
+export function fromZonedWallClock(
+  wallClock: Date,
+  timeZone?: Nullable<string>
+): Date {
+  const time = wallClock.getTime();
+  const getOffset = (instant: number) =>
+    toZonedWallClock(new Date(instant), timeZone).getTime() - instant;
+  // the offset of the wall clock time as UTC is off near DST changes, so take
+  // the offset at the resulting date
+  const firstOffset = getOffset(time);
+  const offset = getOffset(time - firstOffset);
+  const date = new Date(time - offset);
+  if (toZonedWallClock(date, timeZone).getTime() === time) return date;
+  // the time is skipped by a DST change, e.g. 02:30 becomes 03:30 like in Date
+  return new Date(time - Math.min(firstOffset, offset));
+}
+
+/** Seconds since midnight of the time match groups, null if out of range */
+function getMatchedSeconds(
+  hourText: string,
+  minuteText: string,
+  secondText?: string,
+  meridiem?: string
+): number | null {
+  let hours = Number(hourText);
+  const minutes = Number(minuteText);
+  const seconds = secondText ? Number(secondText) : 0;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem.toLowerCase() === "p" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/** Seconds since midnight of a HH:mm or HH:mm:ss time, null if it isn't one */
+export function getTimeSeconds(value: any): number | null {
+  const match = /^(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(String(value));
+  return match ? getMatchedSeconds(match[1], match[2], match[3]) : null;
+}
+
+/** Formats seconds since midnight as HH:mm, or HH:mm:ss if there are seconds */
+function formatTimeSeconds(seconds: number): string {
+  const parts = [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60];
+  if (seconds % 60) parts.push(seconds % 60);
+  return parts.map((part) => part.toString().padStart(2, "0")).join(":");
+}
+
+/**
+ * Parses a datetime into an ISO-8601 UTC string, null if it isn't one. Texts
+ * without a UTC offset (YYYY-MM-DD HH:mm, M/D/YYYY h:mm AM, D.M.YY HH:mm...)
+ * and dates (like the ones read from .xlsx files, whose UTC fields hold the
+ * wall clock time) are wall clock times in the time zone. Numbers are
+ * timestamps.
+ */
+export function parseDateTimeValue(
+  value: any,
+  timeZone?: Nullable<string>
+): string | null {
+  try {
+    if (typeof value === "number") {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    let wallClock: Date | null = null;
+    if (value instanceof Date) {
+      wallClock = value;
+    } else {
+      const text = String(value).trim();
+      if (ISO_OFFSET_REGEX.test(text)) {
+        const date = new Date(text);
+        return isNaN(date.getTime()) ? null : date.toISOString();
+      }
+      for (let i = 0; i < DATE_TIME_REGEXES.length && !wallClock; i++) {
+        const match = DATE_TIME_REGEXES[i].exec(text);
+        if (!match) continue;
+        const [year, month, day] =
+          i === 0
+            ? [match[1], match[2], match[3]]
+            : i === 1
+            ? [match[3], match[1], match[2]]
+            : [match[3], match[2], match[1]];
+        const seconds = match[4]
+          ? getMatchedSeconds(match[4], match[5], match[6], match[7])
+          : 0;
+        if (seconds === null) return null;
+        let fullYear = +year;
+        // 2-digit years of short display formats, 00-29 are 20xx like in Excel
+        if (year.length === 2) fullYear += fullYear < 30 ? 2000 : 1900;
+        const date = new Date(Date.UTC(fullYear, +month - 1, +day));
+        // reject overflowing months and days like 13/01 or 02-31
+        if (
+          +month < 1 ||
+          +month > 12 ||
+          date.getUTCMonth() !== +month - 1 ||
+          date.getUTCDate() !== +day
+        ) {
+          return null;
+        }
+        wallClock = new Date(date.getTime() + seconds * 1000);
+      }
+      if (!wallClock) {
+        // other formats the browser understands, like "Oct 19, 2026 8:00 AM"
+        const date = new Date(text);
+        if (isNaN(date.getTime())) return null;
+        wallClock = toZonedWallClock(date);
+      }
+    }
+    if (isNaN(wallClock.getTime())) return null;
+    return fromZonedWallClock(wallClock, timeZone).toISOString();
+  } catch (e) {
+    log("warn", false, "Error parsing datetime value:", value, e);
+    return null;
+  }
+}
+
+/**
+ * Parses a date into YYYY-MM-DD, null if it isn't one. Accepts the texts of
+ * parseDateTimeValue without shifting them to a time zone, dates are read
+ * from their UTC fields.
+ */
+export function parseDateValue(value: any): string | null {
+  const dateTime = parseDateTimeValue(value, "UTC");
+  return dateTime && dateTime.slice(0, 10);
+}
+
+/**
+ * Parses a time into HH:mm or HH:mm:ss, null if it isn't one. Accepts times
+ * like 8:30, 08:30:15 and 8:30 PM, dates (their UTC time, like the ones read
+ * from .xlsx files) and datetimes (their time in the time zone).
+ */
+export function parseTimeValue(
+  value: any,
+  timeZone?: Nullable<string>
+): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return value.toISOString().slice(11, value.getUTCSeconds() ? 19 : 16);
+  }
+  const text = String(value).trim();
+  const match = TIME_REGEX.exec(text);
+  if (match) {
+    const seconds = getMatchedSeconds(match[1], match[2], match[3], match[4]);
+    return seconds === null ? null : formatTimeSeconds(seconds);
+  }
+  if (typeof value !== "string") return null;
+  const dateTime = parseDateTimeValue(text, timeZone);
+  if (dateTime === null) return null;
+  try {
+    return parseTimeValue(toZonedWallClock(new Date(dateTime), timeZone));
+  } catch (e) {
+    return null;
+  }
+}
+
+/** Returns true for values that are displayed as an empty cell */
+export function isBlankValue(value: any): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+const sortCollator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+/** Converts a cell value to a value comparable by its column type, null for blank values */
+export function getSortValue(
+  value: any,
+  type?: DataType,
+  cachedDropdownOptions?: Map<string | number, string>
+): number | string | null {
+  if (isBlankValue(value)) return null;
+  switch (type) {
+    case "number": {
+      const num = typeof value === "number" ? value : parseFloat(value);
+      return isNaN(num) ? String(value) : num;
+    }
+    case "date": {
+      const dateStr = String(value);
+      const time = new Date(
+        dateStr.includes("T") ? dateStr : dateStr + "T00:00:00Z"
+      ).getTime();
+      return isNaN(time) ? dateStr : time;
+    }
+    case "datetime": {
+      const time = new Date(value).getTime();
+      return isNaN(time) ? String(value) : time;
+    }
+    case "time":
+      return getTimeSeconds(value) ?? String(value);
+    case "boolean":
+      return value === true ? 1 : 0;
+    case "select":
+      // compare by the option names, not by the ids
+      return formatValue(value, type, cachedDropdownOptions);
+    default:
+      return String(value);
+  }
+}
+
+/** Compares two sort values, numbers are ordered before strings */
+export function compareSortValues(
+  a: number | string,
+  b: number | string
+): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "number") return -1;
+  if (typeof b === "number") return 1;
+  return sortCollator.compare(a, b);
+}
+
+/** Returns true if a cell value passes the column filter */
+export function matchesFilter(
+  value: any,
+  filter: ColumnFilter,
+  type?: DataType,
+  cachedDropdownOptions?: Map<string | number, string>,
+  dateTimeOptions?: DateTimeDisplayOptions
+): boolean {
+  const isBlank = isBlankValue(value);
+  switch (filter.type) {
+    case "blank":
+      return isBlank;
+    case "notBlank":
+      return !isBlank;
+    case "values":
+      if (isBlank) return filter.values.includes(null);
+      // multi-select cells match if any of the selected items match
+      if (Array.isArray(value)) {
+        return value.some((item) => filter.values.includes(item));
+      }
+      return filter.values.includes(value);
+    case "text": {
+      if (!filter.contains) return true;
+      if (isBlank) return false;
+      return formatValue(value, type, cachedDropdownOptions, dateTimeOptions)
+        .toLowerCase()
+        .includes(filter.contains.toLowerCase());
+    }
+    case "number": {
+      if (isBlank) return false;
+      const num = typeof value === "number" ? value : parseFloat(value);
+      if (isNaN(num)) return false;
+      if (filter.min != null && num < filter.min) return false;
+      if (filter.max != null && num > filter.max) return false;
+      return true;
+    }
+    case "date": {
+      if (isBlank) return false;
+      const time = getSortValue(value, "date");
+      if (typeof time !== "number") return false;
+      const from = filter.from ? getSortValue(filter.from, "date") : null;
+      const to = filter.to ? getSortValue(filter.to, "date") : null;
+      if (typeof from === "number" && time < from) return false;
+      if (typeof to === "number" && time > to) return false;
+      return true;
+    }
+    default:
+      return true;
+  }
+}
+
 // Helper function to get comparable value
 function getComparableValue(val: any): string {
   if (val === null || val === undefined) return "";
@@ -262,6 +682,25 @@ export function validateInput(
         return { success: false, error, errorType: "value" };
       }
       break;
+    case "datetime":
+      // Check if it's an ISO-8601 datetime with a UTC offset
+      if (
+        typeof value !== "string" ||
+        !ISO_OFFSET_REGEX.test(value) ||
+        isNaN(new Date(value).getTime())
+      ) {
+        const error = `Invalid datetime format (ISO-8601 with a UTC offset) for column "${colLabel}".`;
+        log("warn", verbose, `Validation failed: ${error}.`);
+        return { success: false, error, errorType: "value" };
+      }
+      break;
+    case "time":
+      if (typeof value !== "string" || getTimeSeconds(value) === null) {
+        const error = `Invalid time format (HH:mm) for column "${colLabel}".`;
+        log("warn", verbose, `Validation failed: ${error}.`);
+        return { success: false, error, errorType: "value" };
+      }
+      break;
     case "boolean":
       if (typeof value !== "boolean") {
         const error = `Column "${colLabel}" expects a boolean.`;
@@ -302,13 +741,42 @@ export function chunkArray<T>(array: T[], chunkSize: number): T[][] {
   return chunks;
 }
 
+/**
+ * Index of an item after the items at the removed indices were taken out,
+ * -1 if the item was removed itself. `removed` must be sorted ascending.
+ */
+export function indexAfterRemove(index: number, removed: number[]): number {
+  let low = 0;
+  let high = removed.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (removed[mid] < index) low = mid + 1;
+    else high = mid;
+  }
+  return removed[low] === index ? -1 : index - low;
+}
+
+/**
+ * Index of an item after new items were inserted. `inserted` are the
+ * positions of the new items in the result, sorted ascending.
+ */
+export function indexAfterInsert(index: number, inserted: number[]): number {
+  let result = index;
+  for (const position of inserted) {
+    if (position > result) break;
+    result++;
+  }
+  return result;
+}
+
+/** Debounces the function, `cancel()` drops a pending call */
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
   wait: number
-): (...args: Parameters<T>) => void {
+): ((...args: Parameters<T>) => void) & { cancel: () => void } {
   let timeout: ReturnType<typeof setTimeout> | null = null;
 
-  return function (...args: Parameters<T>): void {
+  const debounced = function (...args: Parameters<T>): void {
     const later = () => {
       timeout = null;
       func(...args);
@@ -319,4 +787,123 @@ export function debounce<T extends (...args: any[]) => any>(
     }
     timeout = setTimeout(later, wait);
   };
+  debounced.cancel = () => {
+    if (timeout !== null) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+  };
+  return debounced;
+}
+
+/**
+ * Serializes rows of cells as delimited text. Cells containing the delimiter,
+ * line breaks or quotes are wrapped in quotes with inner quotes doubled.
+ */
+export function toDelimitedText(
+  rows: string[][],
+  delimiter: string,
+  lineBreak = "\n"
+): string {
+  const quote = (cell: string) =>
+    cell.includes(delimiter) || /[\n\r"]/.test(cell)
+      ? `"${cell.replace(/"/g, '""')}"`
+      : cell;
+  return rows.map((row) => row.map(quote).join(delimiter)).join(lineBreak);
+}
+
+/**
+ * Serializes a grid of display strings as tab-separated text, the format
+ * spreadsheet applications read from `text/plain`.
+ */
+export function toClipboardText(rows: string[][]): string {
+  return toDelimitedText(rows, "\t");
+}
+
+/** Serializes a grid of display strings as an HTML table for `text/html` */
+export function toClipboardHtml(rows: string[][]): string {
+  const escapeHtml = (text: string) =>
+    text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/\r?\n/g, "<br>");
+  const body = rows
+    .map(
+      (row) =>
+        "<tr>" +
+        row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("") +
+        "</tr>"
+    )
+    .join("");
+  return `<table><tbody>${body}</tbody></table>`;
+}
+
+/**
+ * Parses delimited text into rows of cells, honouring quoted cells (which may
+ * contain delimiters and line breaks) and dropping the trailing empty line.
+ */
+export function parseDelimitedText(
+  text: string,
+  delimiter: string
+): string[][] {
+  return Array.from(iterateDelimitedText(text, delimiter));
+}
+
+/** Same as parseDelimitedText, but parses the rows as they are iterated */
+export function* iterateDelimitedText(
+  text: string,
+  delimiter: string
+): Generator<string[]> {
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let cellStart = true;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+    if (char === '"' && cellStart) {
+      inQuotes = true;
+      cellStart = false;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+      cellStart = true;
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      yield row;
+      row = [];
+      cell = "";
+      cellStart = true;
+    } else {
+      cell += char;
+      cellStart = false;
+    }
+  }
+  if (!cellStart || row.length > 0 || cell !== "") {
+    row.push(cell);
+    yield row;
+  }
+}
+
+/**
+ * Parses tab-separated clipboard text into rows of cells, quoted cells may
+ * contain tabs and newlines
+ */
+export function parseClipboardText(text: string): string[][] {
+  return parseDelimitedText(text, "\t");
 }
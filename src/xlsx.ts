@@ -0,0 +1,552 @@
+import { ColumnSchema } from "./types";
+import { getTimeSeconds, isBlankValue } from "./utils";
+
+export type XlsxCellValue = string | number | boolean | Date | null;
+
+export interface XlsxColumn {
+  header: string;
+  width: number; // in pixels
+  schema?: ColumnSchema;
+}
+
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// --- Zip ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/** Creates a zip archive, the entries are stored without compression */
+function createZip(entries: { name: string; data: Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true); // local file header signature
+    localView.setUint16(4, 20, true); // version needed to extract
+    localView.setUint16(12, 0x21, true); // modification date 1980-01-01
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, entry.data.length, true); // compressed size
+    localView.setUint32(22, entry.data.length, true); // uncompressed size
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    localParts.push(local, entry.data);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true); // central directory signature
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed to extract
+    centralView.setUint16(14, 0x21, true); // modification date 1980-01-01
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, entry.data.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true); // offset of the local header
+    central.set(name, 46);
+    centralParts.push(central);
+
+    offset += local.length + entry.data.length;
+  }
+  const centralDirectory = concatBytes(centralParts);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // end of central directory signature
+  endView.setUint16(8, entries.length, true); // entries on this disk
+  endView.setUint16(10, entries.length, true); // total entries
+  endView.setUint32(12, centralDirectory.length, true);
+  endView.setUint32(16, offset, true); // offset of the central directory
+  return concatBytes([...localParts, centralDirectory, end]);
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("Reading compressed XLSX files is not supported here.");
+  }
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Reads the zip directory, the entries are only decompressed when read */
+function readZip(data: Uint8Array): Map<string, () => Promise<Uint8Array>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let endOffset = -1;
+  // the end record is followed by a comment of up to 65535 bytes
+  const minOffset = Math.max(0, data.length - 22 - 0xffff);
+  for (let i = data.length - 22; i >= minOffset; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error("Invalid XLSX file: the zip directory was not found.");
+  }
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, () => Promise<Uint8Array>>();
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error("Invalid XLSX file: the zip directory is corrupt.");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      data.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    // the local header has its own name and extra field lengths
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, async () => {
+      if (method === 0) return compressed;
+      if (method === 8) return inflateRaw(compressed);
+      throw new Error(`Unsupported compression method ${method} of ${name}.`);
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// --- XML ---
+
+const XML_HEADER =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "") // not allowed in XML
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(
+    /&(?:#x([0-9a-f]+)|#(\d+)|(amp|lt|gt|quot|apos));/gi,
+    (_match, hex: string, dec: string, named: string) => {
+      if (hex) return String.fromCodePoint(parseInt(hex, 16));
+      if (dec) return String.fromCodePoint(parseInt(dec, 10));
+      const entities: Record<string, string> = {
+        amp: "&",
+        lt: "<",
+        gt: ">",
+        quot: '"',
+        apos: "'",
+      };
+      return entities[named.toLowerCase()];
+    }
+  );
+}
+
+/** Returns the attributes and content of the elements, namespace prefixes are ignored */
+function findElements(
+  xml: string,
+  tagName: string
+): { attributes: string; content: string }[] {
+  const pattern = new RegExp(
+    `<(?:\\w+:)?${tagName}(?=[\\s/>])([^>]*?)(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${tagName}>)`,
+    "g"
+  );
+  const elements: { attributes: string; content: string }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    elements.push({ attributes: match[1], content: match[2] ?? "" });
+  }
+  return elements;
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name}=(?:"([^"]*)"|'([^']*)')`).exec(
+    attributes
+  );
+  return match ? unescapeXml(match[1] ?? match[2]) : null;
+}
+
+/** Joins the text runs of a shared or inline string, skipping phonetic runs */
+function getStringText(xml: string): string {
+  const textXml = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, "");
+  return findElements(textXml, "t")
+    .map((element) => unescapeXml(element.content))
+    .join("");
+}
+
+// --- Cells ---
+
+// indices of the cellXfs in styles.xml
+const STYLE_HEADER = 1;
+const STYLE_REQUIRED_HEADER = 2;
+const STYLE_DATE = 3;
+const STYLE_INTEGER = 4;
+const STYLE_DECIMAL = 5;
+const STYLE_DATETIME = 6;
+const STYLE_TIME = 7;
+
+const STYLES_XML = `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">\
+<fonts count="3">\
+<font><sz val="11"/><name val="Calibri"/></font>\
+<font><b/><sz val="11"/><name val="Calibri"/></font>\
+<font><b/><sz val="11"/><color rgb="FFDC2626"/><name val="Calibri"/></font>\
+</fonts>\
+<fills count="2"><fill><patternFill patternType="none"/></fill>\
+<fill><patternFill patternType="gray125"/></fill></fills>\
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>\
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>\
+<cellXfs count="8">\
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>\
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>\
+<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>\
+<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>\
+<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>\
+<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>\
+<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>\
+<xf numFmtId="21" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>\
+</cellXfs>\
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>\
+</styleSheet>`;
+
+/** Days between the Excel epoch (1899-12-30) and the Unix epoch */
+const EXCEL_EPOCH_OFFSET = 25569;
+const MS_PER_DAY = 86400000;
+
+function toDateSerial(value: any): number | null {
+  const dateStr = String(value);
+  const date =
+    value instanceof Date
+      ? value
+      : new Date(dateStr.includes("T") ? dateStr : dateStr + "T00:00:00Z");
+  const time = date.getTime();
+  return isNaN(time) ? null : time / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+}
+
+function fromDateSerial(serial: number): Date {
+  return new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * MS_PER_DAY));
+}
+
+/** Returns the column letters of a 0-based column index, e.g. 27 -> "AB" */
+function getColumnName(colIndex: number): string {
+  let name = "";
+  for (let n = colIndex + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function getColumnIndex(columnName: string): number {
+  let index = 0;
+  for (const char of columnName.toUpperCase()) {
+    index = index * 26 + char.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+function stringCellXml(ref: string, text: string, style = 0): string {
+  const styleAttribute = style ? ` s="${style}"` : "";
+  const textXml = `<t xml:space="preserve">${escapeXml(text)}</t>`;
+  return `<c r="${ref}"${styleAttribute} t="inlineStr"><is>${textXml}</is></c>`;
+}
+
+/** Writes a cell with the Excel type of the column schema type */
+function cellXml(ref: string, value: any, schema?: ColumnSchema): string {
+  if (isBlankValue(value)) return "";
+  switch (schema?.type) {
+    case "number": {
+      const num = typeof value === "number" ? value : parseFloat(value);
+      if (!isFinite(num)) break;
+      // no format for numbers that don't specify decimal
+      const style =
+        schema.decimal === false
+          ? STYLE_INTEGER
+          : schema.decimal
+          ? STYLE_DECIMAL
+          : 0;
+      const styleAttribute = style ? ` s="${style}"` : "";
+      return `<c r="${ref}"${styleAttribute}><v>${num}</v></c>`;
+    }
+    case "date": {
+      const serial = toDateSerial(value);
+      if (serial === null) break;
+      return `<c r="${ref}" s="${STYLE_DATE}"><v>${serial}</v></c>`;
+    }
+    case "datetime": {
+      // datetimes are expected as dates holding the wall clock time in UTC
+      const serial = toDateSerial(value);
+      if (serial === null) break;
+      return `<c r="${ref}" s="${STYLE_DATETIME}"><v>${serial}</v></c>`;
+    }
+    case "time": {
+      // times are written as fractions of a day
+      const seconds = getTimeSeconds(value);
+      if (seconds === null) break;
+      const serial = (seconds * 1000) / MS_PER_DAY;
+      return `<c r="${ref}" s="${STYLE_TIME}"><v>${serial}</v></c>`;
+    }
+    case "boolean":
+      if (typeof value !== "boolean") break;
+      return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return stringCellXml(
+    ref,
+    Array.isArray(value) ? value.join(", ") : String(value)
+  );
+}
+
+function isDateFormat(numFmtId: number, formatCode?: string): boolean {
+  // built-in date and time formats
+  const isBuiltInDate =
+    (numFmtId >= 14 && numFmtId <= 22) || (numFmtId >= 45 && numFmtId <= 47);
+  if (isBuiltInDate) return true;
+  if (!formatCode) return false;
+  // ignore quoted text, escaped characters, colors and conditions
+  const code = formatCode.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  return /[dmyhs]/i.test(code);
+}
+
+// --- Workbook ---
+
+/**
+ * Writes a single sheet workbook with a header row. Values are written with
+ * the Excel type of the column schema type: numbers (with an integer or
+ * decimal format if `decimal` is set), dates, datetimes and times as date
+ * serials and booleans.
+ * Other values are written as text. Headers of required columns are marked.
+ */
+export function writeXlsx(
+  columns: XlsxColumn[],
+  rows: any[][],
+  sheetName = "Sheet1"
+): Uint8Array {
+  const safeSheetName =
+    sheetName.replace(/[\\/?*:[\]]/g, " ").slice(0, 31) || "Sheet1";
+
+  const headerCells = columns.map((column, colIndex) => {
+    const required = column.schema?.required;
+    return stringCellXml(
+      `${getColumnName(colIndex)}1`,
+      required ? `${column.header} *` : column.header,
+      required ? STYLE_REQUIRED_HEADER : STYLE_HEADER
+    );
+  });
+  const rowXml = [`<row r="1">${headerCells.join("")}</row>`];
+  rows.forEach((row, rowIndex) => {
+    const cells = columns.map((column, colIndex) =>
+      cellXml(
+        `${getColumnName(colIndex)}${rowIndex + 2}`,
+        row[colIndex],
+        column.schema
+      )
+    );
+    rowXml.push(`<row r="${rowIndex + 2}">${cells.join("")}</row>`);
+  });
+  // Excel column widths are in characters of the default font
+  const colXml = columns
+    .map((column, colIndex) => {
+      const width = Math.max(1, Math.round((column.width - 5) / 7));
+      return `<col min="${colIndex + 1}" max="${
+        colIndex + 1
+      }" width="${width}" customWidth="1"/>`;
+    })
+    .join("");
+
+  const sheetXml = `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">\
+${colXml ? `<cols>${colXml}</cols>` : ""}\
+<sheetData>${rowXml.join("")}</sheetData></worksheet>`;
+  const workbookXml = `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">\
+<sheets><sheet name="${escapeXml(safeSheetName)}" sheetId="1" r:id="rId1"/></sheets>\
+</workbook>`;
+  const workbookRelsXml = `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">\
+<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>\
+<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/>\
+</Relationships>`;
+  const rootRelsXml = `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">\
+<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>\
+</Relationships>`;
+  const contentTypesXml = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">\
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>\
+<Default Extension="xml" ContentType="application/xml"/>\
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>\
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>\
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>\
+</Types>`;
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: "[Content_Types].xml", data: encoder.encode(contentTypesXml) },
+    { name: "_rels/.rels", data: encoder.encode(rootRelsXml) },
+    { name: "xl/workbook.xml", data: encoder.encode(workbookXml) },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: encoder.encode(workbookRelsXml),
+    },
+    { name: "xl/styles.xml", data: encoder.encode(STYLES_XML) },
+    { name: "xl/worksheets/sheet1.xml", data: encoder.encode(sheetXml) },
+  ]);
+}
+
+/**
+ * Reads the cells of the first sheet of a workbook as rows of values. Cells
+ * with a date format are returned as dates (UTC), blank cells as null. The
+ * rows start at the first used row and column, which may not be A1.
+ */
+export async function readXlsx(data: Uint8Array): Promise<XlsxCellValue[][]> {
+  const entries = readZip(data);
+  const decoder = new TextDecoder();
+  const readText = async (path: string): Promise<string | null> => {
+    const read = entries.get(path);
+    return read ? decoder.decode(await read()) : null;
+  };
+
+  // find the first sheet through the workbook relationships
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const workbookXml = await readText("xl/workbook.xml");
+  const relsXml = await readText("xl/_rels/workbook.xml.rels");
+  const firstSheet = workbookXml && findElements(workbookXml, "sheet")[0];
+  const sheetRelId = firstSheet && getAttribute(firstSheet.attributes, "r:id");
+  if (relsXml && sheetRelId) {
+    const relationship = findElements(relsXml, "Relationship").find(
+      (element) => getAttribute(element.attributes, "Id") === sheetRelId
+    );
+    const target =
+      relationship && getAttribute(relationship.attributes, "Target");
+    if (target) {
+      sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  const sheetXml = await readText(sheetPath);
+  if (sheetXml === null) {
+    throw new Error("Invalid XLSX file: no worksheet was found.");
+  }
+
+  const sharedStringsXml = await readText("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? findElements(sharedStringsXml, "si").map((element) =>
+        getStringText(element.content)
+      )
+    : [];
+
+  // style indices that have a date format
+  const dateStyles = new Set<number>();
+  const stylesXml = await readText("xl/styles.xml");
+  if (stylesXml) {
+    const formatCodes = new Map<number, string>();
+    for (const { attributes } of findElements(stylesXml, "numFmt")) {
+      formatCodes.set(
+        Number(getAttribute(attributes, "numFmtId")),
+        getAttribute(attributes, "formatCode") ?? ""
+      );
+    }
+    const cellXfs = findElements(stylesXml, "cellXfs")[0];
+    if (cellXfs) {
+      findElements(cellXfs.content, "xf").forEach(({ attributes }, index) => {
+        const numFmtId = Number(getAttribute(attributes, "numFmtId") ?? 0);
+        if (isDateFormat(numFmtId, formatCodes.get(numFmtId))) {
+          dateStyles.add(index);
+        }
+      });
+    }
+  }
+
+  const rows: XlsxCellValue[][] = [];
+  let rowIndex = -1;
+  for (const row of findElements(sheetXml, "row")) {
+    const rowNumber = getAttribute(row.attributes, "r");
+    rowIndex = rowNumber ? Number(rowNumber) - 1 : rowIndex + 1;
+    const values: XlsxCellValue[] = [];
+    let colIndex = -1;
+    for (const cell of findElements(row.content, "c")) {
+      const ref = getAttribute(cell.attributes, "r");
+      const refColumn = ref && /^[A-Z]+/i.exec(ref);
+      colIndex = refColumn ? getColumnIndex(refColumn[0]) : colIndex + 1;
+
+      const type = getAttribute(cell.attributes, "t");
+      const valueElement = findElements(cell.content, "v")[0];
+      const rawValue = valueElement ? unescapeXml(valueElement.content) : null;
+      let value: XlsxCellValue = null;
+      if (type === "inlineStr") {
+        value = getStringText(cell.content);
+      } else if (rawValue === null || type === "e") {
+        value = null; // blank or error cells
+      } else if (type === "s") {
+        value = sharedStrings[Number(rawValue)] ?? null;
+      } else if (type === "str") {
+        value = rawValue;
+      } else if (type === "b") {
+        value = rawValue === "1";
+      } else if (type === "d") {
+        const date = new Date(rawValue);
+        value = isNaN(date.getTime()) ? rawValue : date;
+      } else {
+        const num = Number(rawValue);
+        const style = Number(getAttribute(cell.attributes, "s") ?? 0);
+        value = dateStyles.has(style) ? fromDateSerial(num) : num;
+      }
+      values[colIndex] = value;
+    }
+    rows[rowIndex] = Array.from(values, (value) => value ?? null);
+  }
+
+  // skip the empty rows and columns before the used range
+  const isUsed = (value: XlsxCellValue) => value !== null && value !== "";
+  const firstRow = rows.findIndex((row) => row?.some(isUsed));
+  if (firstRow < 0) return [];
+  const usedRows = Array.from(rows.slice(firstRow), (row) => row ?? []);
+  const firstCol = usedRows.reduce((min, row) => {
+    const index = row.findIndex(isUsed);
+    return index < 0 ? min : Math.min(min, index);
+  }, Infinity);
+  return usedRows.map((row) => row.slice(firstCol));
+}